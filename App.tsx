@@ -1,7 +1,38 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { ApiKeyPanel } from './components/ApiKeyPanel';
+import { AudioScopePanel } from './components/AudioScopePanel';
+import { BroadcastPanel } from './components/BroadcastPanel';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { ErrorBanner } from './components/ErrorBanner';
+import { MixPanel } from './components/MixPanel';
 import { PegelMeter } from './components/PegelMeter';
+import { PlaybackControls } from './components/PlaybackControls';
+import { ProfilePanel } from './components/ProfilePanel';
+import { RelayPanel } from './components/RelayPanel';
+import { RecordingPanel } from './components/RecordingPanel';
+import { ShortcutSettings } from './components/ShortcutSettings';
+import { GlossaryPanel } from './components/GlossaryPanel';
+import { InputProcessingControls } from './components/InputProcessingControls';
+import { TranscriptPanel } from './components/TranscriptPanel';
+import { UsageBadge } from './components/UsageBadge';
+import { UsagePanel } from './components/UsagePanel';
+import { VadControls } from './components/VadControls';
+import { VoiceControls } from './components/VoiceControls';
+import { CredentialsError } from './services/credentials';
+import { describeInputSource, DISPLAY_INPUT_ID, FILE_INPUT_ID } from './services/inputSources';
+import { glossaryMatchesPair, loadActiveGlossaryId, loadGlossaries, saveActiveGlossaryId, saveGlossaries } from './services/glossary';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import { LiveClient } from './services/liveClient';
-import { AudioDevice, LanguageMode } from './types';
+import { AUTO_DETECT, BUILT_IN_PRESETS, CUSTOM_PRESET_ID, DEFAULT_PRESET_ID, LANGUAGES, createUserPreset, languageName, loadUserPresets, presetToPair, saveUserPresets } from './services/languageRegistry';
+import { RelayPublisher } from './services/relayPublisher';
+import { SessionRecorder } from './services/sessionRecorder';
+import { connectionError, isSessionRunning } from './services/sessionState';
+import { createProfile, loadAppSettings, loadProfiles, pickDevice, resolveDevice, saveAppSettings, saveProfiles, toDeviceRef } from './services/settings';
+import { loadShortcuts, saveShortcuts } from './services/shortcuts';
+import { EMPTY_USAGE, estimateCost, loadUsageHistory, loadUsageSettings, monthToDateCost, saveUsageHistory, saveUsageSettings, totalTokens } from './services/usage';
+import { previewVoice } from './services/voicePreview';
+import { loadVoiceSettings, saveVoiceSettings, voiceForLanguage } from './services/voices';
+import { AppSettings, AudioDevice, BargeInPolicy, Glossary, InputProcessing, InputSource, InterpreterProfile, LanguagePair, MixConfig, PairPreset, PlaybackConfig, RelayConfig, SessionError, SessionState, SessionUsageRecord, ShortcutBindings, TranscriptTurn, TranslationDirection, UsageSettings, UsageTotals, VadConfig, VoiceSettings } from './types';
 
 // Icons
 const MicIcon = ({ className = "w-5 h-5" }: { className?: string }) => (
@@ -17,39 +48,194 @@ const ChevronDown = () => (
   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
 );
 
-const SUPPORTED_LANGUAGES = [
-  'English', 'German', 'Thai', 'Korean', 'French', 'Spanish', 
-  'Italian', 'Portuguese', 'Chinese (Mandarin)', 'Japanese', 
-  'Russian', 'Arabic', 'Hindi', 'Turkish', 'Vietnamese'
-];
+const STATE_LABELS: Record<SessionState, string> = {
+  idle: 'STANDBY',
+  'acquiring-mic': 'OPENING INPUT…',
+  connecting: 'CONNECTING…',
+  live: 'LIVE',
+  reconnecting: 'RECONNECTING…',
+  error: 'ERROR',
+  closed: 'STANDBY',
+};
 
 const App: React.FC = () => {
-  const [active, setActive] = useState(false);
-  const [loading, setLoading] = useState(false);
+  // Restored from the last visit (services/settings.ts)
+  const [initialSettings] = useState(loadAppSettings);
+
+  // Driven by LiveClient's state events (see "Initialize Client")
+  const [sessionState, setSessionState] = useState<SessionState>('idle');
+  const [sessionError, setSessionError] = useState<SessionError | null>(null);
+  const [stopping, setStopping] = useState(false);
+  const running = isSessionRunning(sessionState);
+  const active = sessionState === 'live' || sessionState === 'reconnecting';
+  const loading = sessionState === 'acquiring-mic' || sessionState === 'connecting' || stopping;
   const [inputDevices, setInputDevices] = useState<AudioDevice[]>([]);
   const [outputDevices, setOutputDevices] = useState<AudioDevice[]>([]);
   
   const [selectedMic, setSelectedMic] = useState<string>('');
   const [selectedSpeaker, setSelectedSpeaker] = useState<string>('');
-  const [selectedLanguage, setSelectedLanguage] = useState<LanguageMode>(LanguageMode.AUTO_TO_GERMAN);
+  const [selectedReverseSpeaker, setSelectedReverseSpeaker] = useState<string>(''); // '' = same as main output
+  const [inputFile, setInputFile] = useState<File | null>(null); // for FILE_INPUT_ID
+  const [selectedPresetId, setSelectedPresetId] = useState<string>(initialSettings.presetId);
+
+  // Devices to select once they are listed. A chosen file can't be restored.
+  const savedDevicesRef = useRef({
+    mic: initialSettings.mic?.id === FILE_INPUT_ID ? null : initialSettings.mic,
+    speaker: initialSettings.speaker,
+    reverseSpeaker: initialSettings.reverseSpeaker,
+  });
   
   // Custom language state
-  const [customSource, setCustomSource] = useState('Auto Detect');
-  const [customTarget, setCustomTarget] = useState('German');
+  const [customSource, setCustomSource] = useState(initialSettings.customPair.source);
+  const [customTarget, setCustomTarget] = useState(initialSettings.customPair.target);
+  const [customTwoWay, setCustomTwoWay] = useState(initialSettings.customPair.twoWay);
+  const [presetName, setPresetName] = useState('');
+
+  // Built-in pairs plus the user's saved presets (persisted in localStorage)
+  const [userPresets, setUserPresets] = useState<PairPreset[]>(loadUserPresets);
+  useEffect(() => saveUserPresets(userPresets), [userPresets]);
+  const allPresets = [...BUILT_IN_PRESETS, ...userPresets];
+
+  const isCustomMode = selectedPresetId === CUSTOM_PRESET_ID;
+  const selectedPreset = allPresets.find(p => p.id === selectedPresetId) ?? BUILT_IN_PRESETS[0];
+  const languagePair = isCustomMode
+    ? presetToPair({ source: customSource, target: customTarget, twoWay: customTwoWay })
+    : presetToPair(selectedPreset);
+
+  const saveCustomPreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const preset = createUserPreset(name, languagePair);
+    setUserPresets(presets => [...presets, preset]);
+    setSelectedPresetId(preset.id);
+    setPresetName('');
+  };
+
+  const deleteSelectedPreset = () => {
+    if (selectedPreset.builtIn) return;
+    setUserPresets(presets => presets.filter(p => p.id !== selectedPreset.id));
+    setSelectedPresetId(DEFAULT_PRESET_ID);
+  };
+
+  // Voice and speaking style, remembered per target language (persisted in localStorage)
+  const [voiceSettings, setVoiceSettings] = useState<Record<string, VoiceSettings>>(loadVoiceSettings);
+  const [previewingVoice, setPreviewingVoice] = useState(false);
+  useEffect(() => saveVoiceSettings(voiceSettings), [voiceSettings]);
+  const voice = voiceForLanguage(voiceSettings, languagePair.target);
+
+  const changeVoice = (settings: VoiceSettings) => {
+    setVoiceSettings(all => ({ ...all, [languagePair.target]: settings }));
+  };
+
+  const playVoicePreview = async () => {
+    setPreviewingVoice(true);
+    try {
+      await previewVoice(voice, languagePair.target, selectedSpeaker || undefined);
+    } catch (err) {
+      console.error('Voice preview failed', err);
+      const error = err instanceof CredentialsError ? err.error : connectionError(err instanceof Error ? err.message : String(err));
+      setSessionError(error.kind === 'network' ? { ...error, message: 'The voice preview could not be played. Check the network and try again.' } : error);
+    } finally {
+      setPreviewingVoice(false);
+    }
+  };
+
+  // Two-way mode: which way the conversation is currently being translated
+  const [direction, setDirection] = useState<TranslationDirection | null>(null);
+
+  // Terminology glossaries (persisted in localStorage)
+  const [glossaries, setGlossaries] = useState<Glossary[]>(loadGlossaries);
+  const [activeGlossaryId, setActiveGlossaryId] = useState<string>(loadActiveGlossaryId);
+  const activeGlossary = glossaries.find(g => g.id === activeGlossaryId && glossaryMatchesPair(g, languagePair));
+
+  useEffect(() => saveGlossaries(glossaries), [glossaries]);
+  useEffect(() => saveActiveGlossaryId(activeGlossaryId), [activeGlossaryId]);
+
+  // Captions (source + interpretation), grouped per turn
+  const [transcript, setTranscript] = useState<TranscriptTurn[]>([]);
+
+  // Recording of the last session, available for export after stop
+  const [recordEnabled, setRecordEnabled] = useState(initialSettings.record);
+
+  // Client-side speech gate for the mic uplink
+  const [vadConfig, setVadConfig] = useState<VadConfig>(initialSettings.vad);
+  const [speechActive, setSpeechActive] = useState(false);
+
+  const changeVadConfig = (config: VadConfig) => {
+    setVadConfig(config);
+    clientRef.current?.updateVadConfig(config);
+  };
+
+  // Browser processing, gain and low cut of the input (gain / low cut live-adjustable)
+  const [inputProcessing, setInputProcessing] = useState<InputProcessing>(initialSettings.inputProcessing);
+  const changeInputProcessing = (processing: InputProcessing) => {
+    setInputProcessing(processing);
+    clientRef.current?.updateInputProcessing(processing);
+  };
+
+  // Push-to-talk and mutes
+  const [pushToTalk, setPushToTalk] = useState(initialSettings.pushToTalk);
+  const [micMuted, setMicMuted] = useState(false);
+  const [outputMuted, setOutputMuted] = useState(false);
+
+  const setTalking = (talking: boolean) => clientRef.current?.setTalking(talking);
+  const toggleMicMuted = () => {
+    const muted = !micMuted;
+    setMicMuted(muted);
+    clientRef.current?.setMicMuted(muted);
+  };
+  // What happens to queued translation when the model is interrupted (live-switchable)
+  const [bargeIn, setBargeIn] = useState<BargeInPolicy>(initialSettings.bargeIn);
+  const changeBargeIn = (policy: BargeInPolicy) => {
+    setBargeIn(policy);
+    clientRef.current?.setBargeInPolicy(policy);
+  };
+
+  // Latency bound for the translation (live-switchable)
+  const [playbackConfig, setPlaybackConfig] = useState<PlaybackConfig>(initialSettings.playback);
+  const changePlaybackConfig = (config: PlaybackConfig) => {
+    setPlaybackConfig(config);
+    clientRef.current?.updatePlaybackConfig(config);
+  };
+
+  // Original speaker under the interpretation (live-adjustable)
+  const [mixConfig, setMixConfig] = useState<MixConfig>(initialSettings.mix);
+  const changeMixConfig = (config: MixConfig) => {
+    setMixConfig(config);
+    clientRef.current?.updateMixConfig(config);
+  };
+
+  const toggleOutputMuted = () => {
+    const muted = !outputMuted;
+    setOutputMuted(muted);
+    clientRef.current?.setOutputMuted(muted);
+  };
+
+  // Global keyboard shortcuts (persisted)
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(loadShortcuts);
+  const [capturingShortcut, setCapturingShortcut] = useState(false);
+  useEffect(() => saveShortcuts(shortcuts), [shortcuts]);
+  const [recording, setRecording] = useState<SessionRecorder | null>(null);
 
   const clientRef = useRef<LiveClient | null>(null);
+  const getMetrics = useCallback(() => clientRef.current?.getMetrics() ?? null, []);
+  const getAnalysers = useCallback(() => clientRef.current?.getAnalysers() ?? { input: null, output: null }, []);
   
   // Direct DOM refs for High Performance metering (No React Renders)
   const inputMeterRef = useRef<HTMLDivElement>(null);
   const outputMeterRef = useRef<HTMLDivElement>(null);
+  const backlogRef = useRef<HTMLSpanElement>(null);
 
   // Initialize Client
   useEffect(() => {
-    clientRef.current = new LiveClient();
+    const client = new LiveClient();
+    clientRef.current = client;
+    const offState = client.on('state', setSessionState);
+    const offError = client.on('error', setSessionError);
     return () => {
-      if (clientRef.current) {
-        clientRef.current.stop();
-      }
+      offState();
+      offError();
+      client.dispose();
     };
   }, []);
 
@@ -71,12 +257,16 @@ const App: React.FC = () => {
       setInputDevices(inputs);
       setOutputDevices(outputs);
 
-      if (inputs.length > 0 && !selectedMic) setSelectedMic(inputs[0].deviceId);
-      if (outputs.length > 0 && !selectedSpeaker) setSelectedSpeaker(outputs[0].deviceId);
+      // Keep what is selected, else the remembered device (by id or label), else the first
+      const saved = savedDevicesRef.current;
+      setSelectedMic(current => pickDevice(current, inputs, saved.mic, [DISPLAY_INPUT_ID, FILE_INPUT_ID]));
+      setSelectedSpeaker(current => pickDevice(current, outputs, saved.speaker));
+      setSelectedReverseSpeaker(current =>
+        current && outputs.some(d => d.deviceId === current) ? current : resolveDevice(saved.reverseSpeaker, outputs) ?? '');
     } catch (err) {
       console.error("Failed to list devices", err);
     }
-  }, [selectedMic, selectedSpeaker]);
+  }, []);
 
   useEffect(() => {
     refreshDevices();
@@ -85,21 +275,173 @@ const App: React.FC = () => {
   }, [refreshDevices]);
 
   // Start Session
+  // Microphones, tab audio or a media file all go through the same path
+  const inputSource: InputSource =
+    selectedMic === DISPLAY_INPUT_ID ? { kind: 'display' }
+    : selectedMic === FILE_INPUT_ID && inputFile ? { kind: 'file', file: inputFile }
+    : { kind: 'mic', deviceId: selectedMic };
+
+  // LAN listeners: the session publishes to the relay while it runs
+  const [relayConfig, setRelayConfig] = useState<RelayConfig>(initialSettings.relay);
+  const relayRef = useRef<RelayPublisher | null>(null);
+  // Pair the running session interprets, see the language switch below
+  const sessionPairRef = useRef<LanguagePair | null>(null);
+
+  // Token usage and cost: running totals of this session, history of past ones (persisted)
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [usageHistory, setUsageHistory] = useState<SessionUsageRecord[]>(loadUsageHistory);
+  const [sessionUsage, setSessionUsage] = useState<UsageTotals>(EMPTY_USAGE);
+  const [sessionStartedAt, setSessionStartedAt] = useState(0);
+  useEffect(() => saveUsageSettings(usageSettings), [usageSettings]);
+  useEffect(() => saveUsageHistory(usageHistory), [usageHistory]);
+  const runningCost = active ? estimateCost(sessionUsage, usageSettings.rates) : 0;
+  const overBudget = usageSettings.monthlyBudget > 0 && monthToDateCost(usageHistory) + runningCost >= usageSettings.monthlyBudget;
+
+  // Everything above, saved on every change. Until the devices are listed the
+  // remembered ones stay as they are.
+  const devicesListed = inputDevices.length > 0 || outputDevices.length > 0;
+  const appSettings = useMemo<AppSettings>(() => {
+    const saved = savedDevicesRef.current;
+    return {
+      mic: devicesListed ? toDeviceRef(selectedMic, inputDevices, saved.mic) : saved.mic,
+      speaker: devicesListed ? toDeviceRef(selectedSpeaker, outputDevices, saved.speaker) : saved.speaker,
+      reverseSpeaker: devicesListed ? toDeviceRef(selectedReverseSpeaker, outputDevices, saved.reverseSpeaker) : saved.reverseSpeaker,
+      presetId: selectedPresetId,
+      customPair: { source: customSource, target: customTarget, twoWay: customTwoWay },
+      record: recordEnabled,
+      vad: vadConfig,
+      inputProcessing,
+      pushToTalk,
+      bargeIn,
+      playback: playbackConfig,
+      mix: mixConfig,
+      relay: relayConfig,
+    };
+  }, [devicesListed, selectedMic, selectedSpeaker, selectedReverseSpeaker, inputDevices, outputDevices, selectedPresetId,
+      customSource, customTarget, customTwoWay, recordEnabled, vadConfig, inputProcessing, pushToTalk, bargeIn, playbackConfig, mixConfig, relayConfig]);
+  useEffect(() => {
+    savedDevicesRef.current = { mic: appSettings.mic, speaker: appSettings.speaker, reverseSpeaker: appSettings.reverseSpeaker };
+    saveAppSettings(appSettings);
+  }, [appSettings]);
+
+  // Named setups (devices, languages, voices, glossary), exportable to other machines
+  const [profiles, setProfiles] = useState<InterpreterProfile[]>(loadProfiles);
+  useEffect(() => saveProfiles(profiles), [profiles]);
+
+  const saveProfile = (name: string) => {
+    const profile = createProfile(name, {
+      settings: appSettings,
+      pair: languagePair,
+      voices: Object.fromEntries(
+        [languagePair.source, languagePair.target].filter(code => voiceSettings[code]).map(code => [code, voiceSettings[code]])
+      ),
+      glossary: activeGlossary ?? null,
+    });
+    setProfiles(all => [...all, profile]);
+    return profile;
+  };
+
+  // Devices that are missing here fall back to the first one (or "same as main")
+  const applyProfile = (profile: InterpreterProfile) => {
+    const { settings } = profile;
+    const devices = {
+      mic: settings.mic?.id === FILE_INPUT_ID ? null : settings.mic,
+      speaker: settings.speaker,
+      reverseSpeaker: settings.reverseSpeaker,
+    };
+    savedDevicesRef.current = devices;
+    setSelectedMic(resolveDevice(devices.mic, inputDevices, [DISPLAY_INPUT_ID]) ?? inputDevices[0]?.deviceId ?? '');
+    setSelectedSpeaker(resolveDevice(devices.speaker, outputDevices) ?? outputDevices[0]?.deviceId ?? '');
+    setSelectedReverseSpeaker(resolveDevice(devices.reverseSpeaker, outputDevices) ?? '');
+
+    // A preset this machine doesn't have becomes a custom pair
+    const hasPreset = settings.presetId !== CUSTOM_PRESET_ID && allPresets.some(p => p.id === settings.presetId);
+    const custom = hasPreset ? settings.customPair : profile.pair;
+    setSelectedPresetId(hasPreset ? settings.presetId : CUSTOM_PRESET_ID);
+    setCustomSource(custom.source);
+    setCustomTarget(custom.target);
+    setCustomTwoWay(custom.twoWay);
+
+    setRecordEnabled(settings.record);
+    setVadConfig(settings.vad);
+    setInputProcessing(settings.inputProcessing);
+    setPushToTalk(settings.pushToTalk);
+    setBargeIn(settings.bargeIn);
+    setPlaybackConfig(settings.playback);
+    setMixConfig(settings.mix);
+    setRelayConfig(settings.relay);
+    setVoiceSettings(all => ({ ...all, ...profile.voices }));
+
+    const { glossary } = profile;
+    if (glossary) {
+      setGlossaries(all => [...all.filter(g => g.id !== glossary.id), glossary]);
+    }
+    setActiveGlossaryId(glossary?.id ?? '');
+  };
+
+  // Multi-language broadcast shares the input, so it excludes the single session
+  const [broadcasting, setBroadcasting] = useState(false);
+  const broadcastVoiceFor = (code: string) => voiceForLanguage(voiceSettings, code);
+  const broadcastGlossaryFor = (target: string) =>
+    glossaries.find(g => g.id === activeGlossaryId && glossaryMatchesPair(g, { source: languagePair.source, target, twoWay: false }));
+
   const startSession = async () => {
-    if (active || loading) return;
+    const client = clientRef.current;
+    if (!client || running || stopping || broadcasting) return;
 
     if (!selectedMic) {
-      alert("Please select a microphone first.");
+      setSessionError({ kind: 'input', message: 'Please select a microphone first.' });
+      return;
+    }
+    if (selectedMic === FILE_INPUT_ID && !inputFile) {
+      setSessionError({ kind: 'input', message: 'Please choose an audio or video file first.' });
       return;
     }
-    setLoading(true);
+    setSessionError(null);
+    setTranscript([]);
+    setRecording(null);
+    setDirection(languagePair.twoWay ? { source: languagePair.source, target: languagePair.target } : null);
+    relayRef.current?.close();
+    relayRef.current = relayConfig.enabled ? new RelayPublisher(relayConfig.url, languagePair.target, relayConfig.token) : null;
+    const startedAt = Date.now();
+    const pair = languagePair;
+    sessionPairRef.current = pair;
+    const { rates, project } = usageSettings;
+    setSessionUsage(EMPTY_USAGE);
+    setSessionStartedAt(startedAt);
+
+    // Session over (stopped, gave up reconnecting or failed): wrap up what belongs to it
+    const offState = client.on('state', (state) => {
+      if (state !== 'closed' && state !== 'error') return;
+      offState();
+      relayRef.current?.close();
+      relayRef.current = null;
+      const usage = client.getUsage();
+      if (totalTokens(usage) > 0) {
+        setUsageHistory(history => [...history, {
+          id: `session-${startedAt.toString(36)}`,
+          project,
+          startedAt,
+          durationSeconds: (Date.now() - startedAt) / 1000,
+          pair,
+          usage,
+          cost: estimateCost(usage, rates),
+          currency: rates.currency,
+        }]);
+      }
+      setSpeechActive(false);
+      setRecording(client.getRecording());
+      // Reset meters directly
+      if (inputMeterRef.current) inputMeterRef.current.style.width = '0%';
+      if (outputMeterRef.current) outputMeterRef.current.style.width = '0%';
+    });
+
     try {
-      await clientRef.current?.connect({
-        micDeviceId: selectedMic,
+      await client.connect({
+        input: inputSource,
         speakerDeviceId: selectedSpeaker,
-        languageMode: selectedLanguage,
-        customSource: selectedLanguage === LanguageMode.CUSTOM ? customSource : undefined,
-        customTarget: selectedLanguage === LanguageMode.CUSTOM ? customTarget : undefined,
+        reverseSpeakerDeviceId: languagePair.twoWay && selectedReverseSpeaker ? selectedReverseSpeaker : undefined,
+        pair: languagePair,
         onVolumeChange: (type, vol) => {
           // Direct DOM manipulation - Zero React Overhead
           const el = type === 'input' ? inputMeterRef.current : outputMeterRef.current;
@@ -107,34 +449,84 @@ const App: React.FC = () => {
             const percent = Math.min(100, vol * 100);
             el.style.width = `${percent}%`;
           }
-        }
+        },
+        onTranscript: (turns) => {
+          setTranscript(turns);
+          relayRef.current?.sendCaptions(turns);
+        },
+        // Through the ref: a language switch replaces the relay channel
+        onOutputAudio: relayConfig.enabled ? (data) => relayRef.current?.sendAudio(data, 24000) : undefined,
+        onUsage: setSessionUsage,
+        record: recordEnabled,
+        onDirectionChange: setDirection,
+        glossary: activeGlossary,
+        vad: vadConfig,
+        inputProcessing,
+        onSpeechActivity: setSpeechActive,
+        pushToTalk,
+        bargeIn,
+        voice,
+        mix: mixConfig,
+        playback: playbackConfig,
+        onBacklogChange: (seconds) => {
+          // Same as the meters: straight to the DOM, every frame
+          if (backlogRef.current) backlogRef.current.textContent = `+${seconds.toFixed(1)}s`;
+        },
       });
-      setActive(true);
     } catch (err) {
+      // The client already reported it through its error event (banner)
       console.error("Failed to start session", err);
-      alert("Failed to start interpreter session. Check console for details.");
-      setActive(false);
-    } finally {
-      setLoading(false);
     }
   };
 
+  // Language pair changed while live: LiveClient swaps the session, the audio keeps running
+  useEffect(() => {
+    const current = sessionPairRef.current;
+    if (!active || !current) return;
+    if (current.source === languagePair.source && current.target === languagePair.target && current.twoWay === languagePair.twoWay) return;
+    sessionPairRef.current = languagePair;
+    setDirection(languagePair.twoWay ? { source: languagePair.source, target: languagePair.target } : null);
+    if (relayRef.current && current.target !== languagePair.target) {
+      relayRef.current.close();
+      relayRef.current = new RelayPublisher(relayConfig.url, languagePair.target, relayConfig.token);
+    }
+    clientRef.current?.switchLanguagePair({
+      pair: languagePair,
+      glossary: activeGlossary,
+      voice,
+      reverseSpeakerDeviceId: languagePair.twoWay && selectedReverseSpeaker ? selectedReverseSpeaker : undefined,
+    });
+  }, [active, languagePair.source, languagePair.target, languagePair.twoWay, activeGlossary, voice, relayConfig.url, relayConfig.token, selectedReverseSpeaker]);
+
   // Stop Session
+  // Also cancels a session that is still connecting
   const stopSession = async () => {
-    if (!active || loading) return;
-    
-    setLoading(true);
+    if (!running || stopping) return;
+
+    setStopping(true);
     try {
       await clientRef.current?.stop();
-      setActive(false);
-      // Reset meters directly
-      if (inputMeterRef.current) inputMeterRef.current.style.width = '0%';
-      if (outputMeterRef.current) outputMeterRef.current.style.width = '0%';
     } finally {
-      setLoading(false);
+      setStopping(false);
     }
   };
 
+  // Switching presets mid-session swaps the language pair live; the custom entry is skipped
+  const selectNextPreset = () => {
+    if (loading) return;
+    const index = allPresets.findIndex(p => p.id === selectedPresetId);
+    setSelectedPresetId(allPresets[(index + 1) % allPresets.length].id);
+  };
+
+  useKeyboardShortcuts(shortcuts, {
+    start: startSession,
+    stop: stopSession,
+    muteMic: toggleMicMuted,
+    muteOutput: toggleOutputMuted,
+    nextPreset: selectNextPreset,
+    pushToTalk: pushToTalk && active ? setTalking : undefined,
+  }, !capturingShortcut);
+
   return (
     <div className="flex flex-col h-full bg-slate-900 text-slate-100 font-sans selection:bg-indigo-500 selection:text-white overflow-hidden">
       
@@ -150,25 +542,52 @@ const App: React.FC = () => {
                <h1 className="text-lg font-bold tracking-tight text-white leading-tight">Gemini Live Interpreter</h1>
              </div>
           </div>
-          <div className={`px-2 py-0.5 rounded text-[10px] font-bold tracking-wider uppercase border ${active ? 'bg-red-500/10 text-red-400 border-red-500/30 animate-pulse' : 'bg-slate-800 text-slate-500 border-slate-700'}`}>
-            {active ? 'LIVE' : 'STANDBY'}
+          <div className="flex items-center gap-2">
+            {active && (
+              <UsageBadge usage={sessionUsage} rates={usageSettings.rates} startedAt={sessionStartedAt} overBudget={overBudget} />
+            )}
+            {active && activeGlossary && (
+              <div className="px-2 py-0.5 rounded text-[10px] font-bold tracking-wider border bg-indigo-500/10 text-indigo-300 border-indigo-500/30" title="Active glossary">
+                {activeGlossary.name}
+              </div>
+            )}
+            <div className={`px-2 py-0.5 rounded text-[10px] font-bold tracking-wider uppercase border ${
+              sessionState === 'reconnecting' || sessionState === 'connecting' || sessionState === 'acquiring-mic'
+                ? 'bg-amber-500/10 text-amber-400 border-amber-500/30 animate-pulse'
+                : sessionState === 'live' ? 'bg-red-500/10 text-red-400 border-red-500/30 animate-pulse'
+                : sessionState === 'error' ? 'bg-red-950 text-red-300 border-red-500/40'
+                : 'bg-slate-800 text-slate-500 border-slate-700'
+            }`}>
+              {STATE_LABELS[sessionState]}
+            </div>
           </div>
       </header>
 
       {/* Main Content */}
       <main className="flex-1 flex flex-col p-6 gap-6 relative overflow-y-auto">
-        
+        {sessionError && <ErrorBanner error={sessionError} onDismiss={() => setSessionError(null)} />}
+
         {/* TOP: Meters */}
         <div className="flex flex-col md:flex-row gap-4 md:gap-8 bg-slate-900/50 p-4 rounded-xl border border-slate-800/50">
            <PegelMeter 
             ref={inputMeterRef}
-            label="Input Microphone" 
+            label={`Input ${describeInputSource(inputSource)}`}
             colorClass="bg-emerald-500" 
+            badge={active && vadConfig.enabled && (
+              <span className={`text-[10px] font-bold font-mono uppercase tracking-widest transition-colors ${speechActive ? 'text-emerald-400' : 'text-slate-700'}`}>
+                ● Speech
+              </span>
+            )}
            />
            <PegelMeter 
             ref={outputMeterRef}
             label="Output Speaker" 
             colorClass="bg-amber-500" 
+            badge={active && (
+              <span ref={backlogRef} title="Translation still queued" className="text-[10px] font-bold font-mono text-amber-400/80 tracking-widest">
+                +0.0s
+              </span>
+            )}
            />
         </div>
 
@@ -182,7 +601,7 @@ const App: React.FC = () => {
               
               <button
                 onClick={startSession}
-                disabled={active || loading}
+                disabled={active || loading || broadcasting}
                 className={`
                   relative group flex items-center justify-center w-36 h-36 rounded-[2.5rem] transition-all duration-300
                   ${active 
@@ -209,11 +628,11 @@ const App: React.FC = () => {
            {/* OFF BUTTON - Always visible, Gradient 33deg, Wide */}
            <button 
               onClick={stopSession}
-              disabled={!active || loading}
+              disabled={!running || stopping}
               className={`
                 w-64 h-14 rounded-xl flex items-center justify-center border transition-all duration-300
                 text-lg font-bold uppercase tracking-widest shadow-xl
-                ${active && !loading
+                ${running && !stopping
                   ? 'bg-gradient-to-br from-orange-700 via-purple-800 to-teal-700 border-white/10 text-white hover:scale-105 active:scale-95 shadow-purple-900/40 cursor-pointer'
                   : 'bg-slate-800 border-slate-700 text-slate-600 opacity-50 cursor-not-allowed shadow-none grayscale'
                 }
@@ -222,8 +641,62 @@ const App: React.FC = () => {
               OFF
            </button>
 
+           {/* PUSH-TO-TALK + MUTES */}
+           <div className="flex items-center gap-3">
+             {active && pushToTalk && (
+               <button
+                 onPointerDown={() => setTalking(true)}
+                 onPointerUp={() => setTalking(false)}
+                 onPointerLeave={() => setTalking(false)}
+                 onPointerCancel={() => setTalking(false)}
+                 className={`px-5 h-10 rounded-lg border text-xs font-bold uppercase tracking-widest select-none touch-none transition-colors ${
+                   speechActive ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-300'
+                 }`}
+               >
+                 {speechActive ? 'Talking…' : 'Hold to talk'}
+               </button>
+             )}
+             <button
+               onClick={toggleMicMuted}
+               className={`px-3 h-10 rounded-lg border text-[10px] font-bold uppercase tracking-widest transition-colors ${
+                 micMuted ? 'bg-red-500/20 border-red-500/50 text-red-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+               }`}
+             >
+               {micMuted ? 'Mic muted' : 'Mute mic'}
+             </button>
+             <button
+               onClick={toggleOutputMuted}
+               className={`px-3 h-10 rounded-lg border text-[10px] font-bold uppercase tracking-widest transition-colors ${
+                 outputMuted ? 'bg-red-500/20 border-red-500/50 text-red-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'
+               }`}
+             >
+               {outputMuted ? 'Output muted' : 'Mute output'}
+             </button>
+           </div>
+
+           {/* TWO-WAY: current direction */}
+           {active && direction && (
+             <div className="flex items-center gap-3 px-4 py-2 rounded-full bg-slate-800/60 border border-slate-700 text-sm font-bold tracking-wide">
+               <span className="text-emerald-400">{languageName(direction.source)}</span>
+               <span className="text-slate-500">→</span>
+               <span className="text-amber-400">{languageName(direction.target)}</span>
+             </div>
+           )}
+
         </div>
 
+        {/* Transcript: source and interpretation side by side */}
+        <TranscriptPanel turns={transcript} />
+
+        {/* Recording + export (WAV / SRT / VTT / JSON) */}
+        <RecordingPanel
+          enabled={recordEnabled}
+          onEnabledChange={setRecordEnabled}
+          disabled={active || loading}
+          recording={recording}
+          turns={transcript}
+        />
+
         {/* BOTTOM: Settings */}
         <div className="bg-slate-800/40 backdrop-blur rounded-xl border border-slate-700/50 p-4 md:p-6 grid grid-cols-1 md:grid-cols-3 gap-6">
           
@@ -243,9 +716,44 @@ const App: React.FC = () => {
                   <option key={d.deviceId} value={d.deviceId}>{d.label}</option>
                 ))}
                 {inputDevices.length === 0 && <option>Default Microphone</option>}
+                <optgroup label="Other sources">
+                  <option value={DISPLAY_INPUT_ID}>Tab / screen audio…</option>
+                  <option value={FILE_INPUT_ID}>Audio / video file…</option>
+                </optgroup>
               </select>
               <div className="absolute right-3 top-2.5 pointer-events-none text-slate-500"><ChevronDown/></div>
             </div>
+
+            {selectedMic === DISPLAY_INPUT_ID && (
+              <p className="text-[10px] text-slate-500">The browser asks what to share when the session starts. Pick a tab and enable "Share tab audio".</p>
+            )}
+            {selectedMic === FILE_INPUT_ID && (
+              <input
+                type="file"
+                accept="audio/*,video/*"
+                onChange={e => setInputFile(e.target.files?.[0] ?? null)}
+                disabled={active || loading}
+                className="w-full text-xs text-slate-400 file:mr-2 file:px-2.5 file:py-1 file:rounded file:border file:border-slate-600 file:bg-slate-900 file:text-slate-300"
+              />
+            )}
+
+            <div className="mt-2 pt-2 border-t border-slate-700/50">
+              <InputProcessingControls config={inputProcessing} onChange={changeInputProcessing} locked={active || loading} />
+            </div>
+
+            <div className="mt-2 pt-2 border-t border-slate-700/50">
+              <VadControls config={vadConfig} onChange={changeVadConfig} locked={active || loading} />
+              <label className="flex items-center gap-2 mt-2 text-xs font-bold text-slate-400 uppercase tracking-wider cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={pushToTalk}
+                  onChange={e => setPushToTalk(e.target.checked)}
+                  disabled={active || loading}
+                  className="accent-indigo-500"
+                />
+                Push-to-talk
+              </label>
+            </div>
           </div>
 
           {/* Output Selector */}
@@ -267,6 +775,41 @@ const App: React.FC = () => {
               </select>
               <div className="absolute right-3 top-2.5 pointer-events-none text-slate-500"><ChevronDown/></div>
             </div>
+
+            {/* TWO-WAY: optional separate device for the reverse direction */}
+            {languagePair.twoWay && (
+              <div className="mt-2 pt-2 border-t border-slate-700/50 space-y-1 animate-[fadeIn_0.3s_ease-out]">
+                <span className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">{languageName(languagePair.target)} → {languageName(languagePair.source)} output</span>
+                <select
+                  value={selectedReverseSpeaker}
+                  onChange={e => setSelectedReverseSpeaker(e.target.value)}
+                  disabled={active || loading}
+                  className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 focus:outline-none appearance-none"
+                >
+                  <option value="">Same as above</option>
+                  {outputDevices.map(d => (
+                    <option key={d.deviceId} value={d.deviceId}>{d.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="mt-2 pt-2 border-t border-slate-700/50 space-y-1">
+              <span className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">On interruption</span>
+              <select
+                value={bargeIn}
+                onChange={e => changeBargeIn(e.target.value as BargeInPolicy)}
+                className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 focus:outline-none appearance-none"
+              >
+                <option value="queue">Keep queueing (finish old sentence)</option>
+                <option value="duck">Duck old audio under new</option>
+                <option value="flush">Flush and jump to new speech</option>
+              </select>
+            </div>
+
+            <div className="mt-2 pt-2 border-t border-slate-700/50">
+              <PlaybackControls config={playbackConfig} onChange={changePlaybackConfig} />
+            </div>
           </div>
 
           {/* Language Selector */}
@@ -276,47 +819,159 @@ const App: React.FC = () => {
             </label>
             <div className="relative">
                <select 
-                value={selectedLanguage} 
-                onChange={e => !active && !loading && setSelectedLanguage(e.target.value as LanguageMode)}
-                disabled={active || loading}
+                value={isCustomMode ? CUSTOM_PRESET_ID : selectedPreset.id} 
+                onChange={e => !loading && setSelectedPresetId(e.target.value)}
+                disabled={loading}
                 className="w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-1 focus:ring-indigo-500 focus:outline-none disabled:opacity-50 appearance-none"
               >
-                 {(Object.values(LanguageMode) as string[]).map((mode) => (
-                    <option key={mode} value={mode}>{mode}</option>
+                 {BUILT_IN_PRESETS.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
                  ))}
+                 {userPresets.length > 0 && (
+                   <optgroup label="My presets">
+                     {userPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                   </optgroup>
+                 )}
+                 <option value={CUSTOM_PRESET_ID}>Custom / More...</option>
               </select>
                <div className="absolute right-3 top-2.5 pointer-events-none text-slate-500"><ChevronDown/></div>
             </div>
 
+            {!isCustomMode && !selectedPreset.builtIn && (
+              <button
+                onClick={deleteSelectedPreset}
+                disabled={active || loading}
+                className="text-[10px] font-mono text-slate-500 hover:text-red-400 uppercase tracking-widest disabled:opacity-40"
+              >
+                Delete preset
+              </button>
+            )}
+
             {/* CUSTOM MODE SELECTORS */}
-            {selectedLanguage === LanguageMode.CUSTOM && (
+            {isCustomMode && (
               <div className="grid grid-cols-2 gap-2 mt-2 pt-2 border-t border-slate-700/50 animate-[fadeIn_0.3s_ease-out]">
                  <div className="relative">
                     <select
                       value={customSource}
                       onChange={e => setCustomSource(e.target.value)}
-                      disabled={active || loading}
+                      disabled={loading}
                       className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 focus:outline-none appearance-none"
                     >
-                      <option>Auto Detect</option>
-                      {SUPPORTED_LANGUAGES.map(lang => <option key={lang}>{lang}</option>)}
+                      {!customTwoWay && <option value={AUTO_DETECT}>Auto Detect</option>}
+                      {LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.name} · {lang.nativeName}</option>)}
                     </select>
                  </div>
                  <div className="relative">
                     <select
                       value={customTarget}
                       onChange={e => setCustomTarget(e.target.value)}
-                      disabled={active || loading}
+                      disabled={loading}
                       className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 focus:outline-none appearance-none"
                     >
-                       {SUPPORTED_LANGUAGES.map(lang => <option key={lang}>{lang}</option>)}
+                       {LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.name} · {lang.nativeName}</option>)}
                     </select>
                  </div>
+                 <label className="col-span-2 flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={customTwoWay}
+                      onChange={e => {
+                        setCustomTwoWay(e.target.checked);
+                        // A conversation needs two known languages
+                        if (e.target.checked && customSource === AUTO_DETECT) setCustomSource('en');
+                      }}
+                      disabled={loading}
+                      className="accent-indigo-500"
+                    />
+                    Two-way conversation
+                 </label>
+                 <div className="col-span-2 flex gap-2">
+                    <input
+                      value={presetName}
+                      onChange={e => setPresetName(e.target.value)}
+                      onKeyDown={e => e.key === 'Enter' && saveCustomPreset()}
+                      placeholder={`e.g. Board meeting ${languagePair.source.toUpperCase()}→${languagePair.target.toUpperCase()}`}
+                      disabled={active || loading}
+                      className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 focus:outline-none"
+                    />
+                    <button
+                      onClick={saveCustomPreset}
+                      disabled={active || loading || !presetName.trim()}
+                      className="px-2.5 py-1 rounded border border-slate-600 bg-slate-900 text-xs text-slate-300 hover:border-indigo-500 hover:text-white transition-colors disabled:opacity-40"
+                    >
+                      Save preset
+                    </button>
+                 </div>
               </div>
             )}
+
+            <div className="mt-2 pt-2 border-t border-slate-700/50">
+              <VoiceControls
+                settings={voice}
+                onChange={changeVoice}
+                languageCode={languagePair.target}
+                onPreview={playVoicePreview}
+                previewing={previewingVoice}
+                disabled={active || loading}
+              />
+            </div>
           </div>
 
         </div>
+
+        <ProfilePanel
+          profiles={profiles}
+          onProfilesChange={setProfiles}
+          onSave={saveProfile}
+          onApply={applyProfile}
+          disabled={active || loading || broadcasting}
+        />
+
+        <ApiKeyPanel disabled={running} />
+
+        {/* Terminology */}
+        <GlossaryPanel
+          glossaries={glossaries}
+          onGlossariesChange={setGlossaries}
+          activeId={activeGlossary?.id ?? ''}
+          onActiveChange={setActiveGlossaryId}
+          pair={languagePair}
+          disabled={active || loading}
+        />
+
+        <MixPanel config={mixConfig} onChange={changeMixConfig} />
+
+        <BroadcastPanel
+          input={inputSource}
+          inputProcessing={inputProcessing}
+          source={languagePair.source}
+          outputDevices={outputDevices}
+          voiceFor={broadcastVoiceFor}
+          glossaryFor={broadcastGlossaryFor}
+          relay={relayConfig}
+          disabled={active || loading}
+          onRunningChange={setBroadcasting}
+        />
+
+        <RelayPanel config={relayConfig} onChange={setRelayConfig} disabled={active || loading || broadcasting} />
+
+        <AudioScopePanel getAnalysers={getAnalysers} active={active} />
+
+        <DiagnosticsPanel getMetrics={getMetrics} active={active} />
+
+        <UsagePanel
+          settings={usageSettings}
+          onSettingsChange={setUsageSettings}
+          history={usageHistory}
+          onClearHistory={() => setUsageHistory([])}
+          runningCost={runningCost}
+        />
+
+        <ShortcutSettings
+          bindings={shortcuts}
+          onChange={setShortcuts}
+          onCapturingChange={setCapturingShortcut}
+        />
       </main>
     </div>
   );
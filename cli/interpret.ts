@@ -0,0 +1,283 @@
+// Headless batch interpretation of recorded audio.
+//
+// Streams a WAV (or raw 16-bit PCM) file to a Live session in real time or
+// faster and writes the interpretation as WAV, plus optional captions:
+//
+//   npm run interpret -- talk.wav --source en --target de --voice Kore \
+//     --out talk.de.wav --transcript talk.de.srt --speed 2
+//
+// Uses GEMINI_API_KEY (or API_KEY); LIVE_BASE_URL points it at the mock server.
+// Dropped sessions resume like in the browser; if the input can't be sent in
+// full or the last turn never completes, it exits non-zero without output.
+import { readFileSync, writeFileSync } from 'fs';
+import { basename, extname } from 'path';
+import { LiveServerMessage } from '@google/genai';
+import { AUTO_DETECT, BUILT_IN_PRESETS, getLanguage, presetToPair } from '../services/languageRegistry';
+import { buildLiveConnectConfig } from '../services/liveConfig';
+import { LiveConnection } from '../services/liveConnection';
+import { TranscriptLog } from '../services/transcript';
+import { GeminiLiveTransport } from '../services/transport';
+import { defaultVoiceFor } from '../services/voices';
+import { LanguagePair, SessionError, SpeakingRate, SpeechRegister, VoiceSettings } from '../types';
+import { base64ToUint8Array, decodeWav, encodeWav, pcmToGeminiBlob, resampleLinear } from '../utils/audioUtils';
+import { toSrt, toTranscriptJson, toVtt } from '../utils/subtitles';
+
+interface CliOptions {
+  input: string;
+  pair: LanguagePair;
+  voice: VoiceSettings;
+  out: string;
+  transcript: string | null;
+  speed: number;      // 1 = real time
+  pcmRate: number;    // sample rate of raw .pcm input
+  idleMs: number;     // wait this long for trailing output after the input ended
+}
+
+const INPUT_RATE = 16000;
+const OUTPUT_RATE = 24000;
+const CHUNK_SAMPLES = 2048; // same buffer size the browser worklet posts
+// Options that never take a value
+const FLAGS = new Set(['two-way', 'help']);
+const RATES: SpeakingRate[] = ['slow', 'normal', 'fast'];
+const REGISTERS: SpeechRegister[] = ['auto', 'formal', 'informal'];
+
+const USAGE = `Usage: npm run interpret -- <input.wav|input.pcm> [options]
+
+  --source <code|auto>   spoken language (default: auto)
+  --target <code>        interpretation language (default: de)
+  --two-way              conversation between source and target
+  --preset <id>          built-in pair instead of --source/--target (${BUILT_IN_PRESETS.map(p => p.id).join(', ')})
+  --voice <name>         prebuilt voice (default: per target language)
+  --rate <slow|normal|fast>, --register <auto|formal|informal>
+  --out <file.wav>       interpretation audio (default: <input>.<target>.wav)
+  --transcript <file>    captions as .srt, .vtt or .json
+  --speed <n>            stream n times faster than real time (default: 1)
+  --pcm-rate <hz>        sample rate of raw .pcm input (default: 16000)
+  --idle <ms>            wait for trailing output after the input (default: 8000)`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const args = new Map<string, string>();
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const [key, inline] = arg.slice(2).split('=');
+    const next = argv[i + 1];
+    if (inline !== undefined) {
+      args.set(key, inline);
+    } else if (!FLAGS.has(key) && next !== undefined && !next.startsWith('--')) {
+      args.set(key, next);
+      i++;
+    } else {
+      args.set(key, 'true');
+    }
+  }
+  if (args.has('help')) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (positional.length === 0) fail('Missing input file');
+  const num = (key: string, fallback: number) => (args.has(key) ? Number(args.get(key)) : fallback);
+  const oneOf = <T extends string>(key: string, allowed: T[], fallback: T): T => {
+    const value = args.get(key);
+    if (value === undefined) return fallback;
+    if (!allowed.includes(value as T)) fail(`--${key} must be one of ${allowed.join(', ')}`);
+    return value as T;
+  };
+
+  let pair: LanguagePair;
+  const presetId = args.get('preset');
+  if (presetId) {
+    const preset = BUILT_IN_PRESETS.find(p => p.id === presetId);
+    if (!preset) fail(`Unknown preset "${presetId}"`);
+    pair = presetToPair(preset);
+  } else {
+    pair = presetToPair({ source: args.get('source') ?? AUTO_DETECT, target: args.get('target') ?? 'de', twoWay: args.has('two-way') });
+  }
+  for (const code of [pair.source, pair.target]) {
+    if (code !== AUTO_DETECT && !getLanguage(code)) fail(`Unknown language code "${code}"`);
+  }
+
+  const defaults = defaultVoiceFor(pair.target);
+  const voice: VoiceSettings = {
+    voiceName: args.get('voice') ?? defaults.voiceName,
+    rate: oneOf('rate', RATES, defaults.rate),
+    register: oneOf('register', REGISTERS, defaults.register),
+  };
+
+  const input = positional[0];
+  const speed = num('speed', 1);
+  if (!(speed >= 1)) fail('--speed must be at least 1');
+
+  return {
+    input,
+    pair,
+    voice,
+    out: args.get('out') ?? `${basename(input, extname(input))}.${pair.target}.wav`,
+    transcript: args.get('transcript') ?? null,
+    speed,
+    pcmRate: num('pcm-rate', INPUT_RATE),
+    idleMs: num('idle', 8000),
+  };
+}
+
+// Mono 16 kHz Float32, whatever the file was
+function loadInput(path: string, pcmRate: number): Float32Array {
+  const file = readFileSync(path);
+  const bytes = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+
+  if (extname(path).toLowerCase() === '.pcm' || extname(path).toLowerCase() === '.raw') {
+    const int16 = new Int16Array(bytes, 0, Math.floor(bytes.byteLength / 2));
+    const data = Float32Array.from(int16, s => s / 32768);
+    return resampleLinear(data, pcmRate, INPUT_RATE);
+  }
+
+  const { sampleRate, channels } = decodeWav(bytes);
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return resampleLinear(mono, sampleRate, INPUT_RATE);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function run(options: CliOptions) {
+  const audio = loadInput(options.input, options.pcmRate);
+  const durationSeconds = audio.length / INPUT_RATE;
+  console.log(`Interpreting ${options.input} (${durationSeconds.toFixed(1)}s) ${options.pair.source} -> ${options.pair.target}, voice ${options.voice.voiceName}, ${options.speed}x`);
+
+  // Output is placed like the browser schedules playback: gapless, but never
+  // before the point of the input it answers (in media time)
+  const output: { offset: number; data: Float32Array }[] = [];
+  let nextOffset = 0;
+  let sentSamples = 0;
+  let lastMessageAt = Date.now();
+
+  const origin = Date.now();
+  const mediaNow = () => origin + (sentSamples / INPUT_RATE) * 1000;
+  const transcript = new TranscriptLog();
+
+  let inputDone = false;     // audioStreamEnd sent
+  let turnOpen = false;      // the model answered since the last turnComplete
+  let resuming = false;      // reconnecting after a drop, not a goAway handover
+  let failure: SessionError | null = null;
+
+  const handleMessage = (message: LiveServerMessage) => {
+    const content = message.serverContent;
+    // Session control (goAway, resumption handles) doesn't count as output
+    if (content) lastMessageAt = Date.now();
+    const base64Audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio) {
+      const bytes = base64ToUint8Array(base64Audio);
+      const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+      const data = Float32Array.from(int16, s => s / 32768);
+      const offset = Math.max(nextOffset, Math.round((sentSamples / INPUT_RATE) * OUTPUT_RATE));
+      output.push({ offset, data });
+      nextOffset = offset + data.length;
+      turnOpen = true;
+    }
+    if (content?.inputTranscription?.text) transcript.appendSource(content.inputTranscription.text, mediaNow());
+    if (content?.outputTranscription?.text) {
+      transcript.appendTarget(content.outputTranscription.text, mediaNow());
+      turnOpen = true;
+    }
+    if (content?.turnComplete) {
+      transcript.completeTurn(mediaNow());
+      turnOpen = false;
+    }
+  };
+
+  const transport = new GeminiLiveTransport({
+    apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY || (process.env.LIVE_BASE_URL ? 'mock' : undefined),
+    baseUrl: process.env.LIVE_BASE_URL || undefined,
+  });
+  // Same session handling as the browser: resumed after a drop, handed over on goAway
+  const connection: LiveConnection = new LiveConnection(
+    transport,
+    resumptionHandle => buildLiveConnectConfig({ pair: options.pair, voice: options.voice, resumptionHandle }),
+    {
+      onOpen: () => {
+        // A resumed session gets the full idle time to finish an open turn
+        if (resuming && turnOpen) lastMessageAt = Date.now();
+        resuming = false;
+        connection.flushPending();
+        // Resumed after the input ended: the new socket still has to hear that
+        if (inputDone) connection.send({ audioStreamEnd: true });
+      },
+      onMessage: handleMessage,
+      onReconnecting: (lost) => {
+        if (!lost) return;
+        resuming = true;
+        transcript.completeTurn(mediaNow());
+      },
+      onFail: (error) => { failure = error; },
+    },
+  );
+  const abort = (why: string): never => {
+    connection.close();
+    throw new Error(`${why}; sent ${(sentSamples / INPUT_RATE).toFixed(1)}s of ${durationSeconds.toFixed(1)}s, no output written`);
+  };
+  connection.start();
+
+  // Stream in worklet-sized chunks, paced to the requested speed
+  const chunkMs = (CHUNK_SAMPLES / INPUT_RATE) * 1000 / options.speed;
+  let due = Date.now();
+  for (let i = 0; i < audio.length; i += CHUNK_SAMPLES) {
+    // Hold the input while (re)connecting, then carry on at the same pace
+    while (!connection.isOpen && !failure) await sleep(100);
+    if (failure) break;
+    due = Math.max(due, Date.now());
+
+    const chunk = audio.subarray(i, Math.min(audio.length, i + CHUNK_SAMPLES));
+    connection.send({ media: pcmToGeminiBlob(chunk, INPUT_RATE) });
+    sentSamples += chunk.length;
+
+    due += chunkMs;
+    await sleep(Math.max(0, due - Date.now()));
+    if (i % (CHUNK_SAMPLES * 40) === 0) {
+      process.stdout.write(`\r  sent ${(sentSamples / INPUT_RATE).toFixed(0)}s / ${durationSeconds.toFixed(0)}s`);
+    }
+  }
+  if (failure) abort(failure.message);
+  process.stdout.write(`\r  sent ${durationSeconds.toFixed(1)}s, waiting for the rest of the interpretation…\n`);
+  inputDone = true;
+  connection.send({ audioStreamEnd: true });
+
+  // Done once the server has been quiet for a while; a session that drops
+  // meanwhile is resumed and gets the time again
+  while (!failure && (!connection.isOpen || Date.now() - lastMessageAt < options.idleMs)) {
+    await sleep(250);
+  }
+  if (failure) abort(failure.message);
+  if (turnOpen) abort('The last turn never completed');
+  connection.close();
+  transcript.completeTurn(mediaNow());
+
+  const length = output.reduce((max, c) => Math.max(max, c.offset + c.data.length), 0);
+  const mix = new Float32Array(length);
+  for (const chunk of output) mix.set(chunk.data, chunk.offset);
+  writeFileSync(options.out, Buffer.from(encodeWav([mix], OUTPUT_RATE)));
+  console.log(`Wrote ${options.out} (${(length / OUTPUT_RATE).toFixed(1)}s)`);
+
+  if (options.transcript) {
+    const turns = transcript.getTurns();
+    const ext = extname(options.transcript).toLowerCase();
+    const text = ext === '.vtt' ? toVtt(turns, origin) : ext === '.json' ? toTranscriptJson(turns, origin) : toSrt(turns, origin);
+    writeFileSync(options.transcript, text);
+    console.log(`Wrote ${options.transcript} (${turns.length} turns)`);
+  }
+}
+
+run(parseArgs(process.argv.slice(2))).catch(e => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { clearUserApiKey, getUserApiKey, setUserApiKey } from '../services/credentials';
+
+interface ApiKeyPanelProps {
+  disabled?: boolean; // applies from the next session
+}
+
+const inputClass = "flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 focus:ring-1 focus:ring-indigo-500 focus:outline-none disabled:opacity-50";
+const buttonClass = "px-2.5 py-1 rounded border border-slate-600 bg-slate-900 text-xs text-slate-300 hover:border-indigo-500 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Runtime "bring your own key" in place of the token service
+export const ApiKeyPanel: React.FC<ApiKeyPanelProps> = ({ disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [storedKey, setStoredKey] = useState<string | null>(getUserApiKey);
+  const [draft, setDraft] = useState('');
+  const [remember, setRemember] = useState(false);
+
+  const save = () => {
+    const key = draft.trim();
+    if (!key) return;
+    setUserApiKey(key, remember);
+    setStoredKey(key);
+    setDraft('');
+  };
+
+  const forget = () => {
+    clearUserApiKey();
+    setStoredKey(null);
+  };
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-wider"
+      >
+        <span>
+          API Access
+          <span className="ml-2 normal-case font-mono text-slate-500">
+            {storedKey ? `own key ••••${storedKey.slice(-4)}` : 'token service'}
+          </span>
+        </span>
+        <span className="text-slate-500">{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <p className="text-[10px] text-slate-500">
+            By default every session gets a short-lived token from the token service
+            (<span className="font-mono text-slate-400">npm run token-server</span>), so no key ships with the page.
+            Without it, enter your own Gemini API key. It stays in this browser.
+          </p>
+
+          {storedKey ? (
+            <div className="flex items-center gap-2">
+              <span className="flex-1 text-xs font-mono text-slate-300">Using your key ••••{storedKey.slice(-4)}</span>
+              <button className={buttonClass} onClick={forget} disabled={disabled}>Forget key</button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="password"
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && save()}
+                placeholder="Gemini API key"
+                autoComplete="off"
+                disabled={disabled}
+                className={inputClass}
+              />
+              <label className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={remember}
+                  onChange={e => setRemember(e.target.checked)}
+                  disabled={disabled}
+                  className="accent-indigo-500"
+                />
+                Remember on this device
+              </label>
+              <button className={buttonClass} onClick={save} disabled={disabled || !draft.trim()}>Use key</button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
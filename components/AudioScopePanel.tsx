@@ -0,0 +1,197 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { MIN_DB, SignalAnalyzer, SignalLevels } from '../services/signalAnalysis';
+
+interface AudioScopePanelProps {
+  getAnalysers: () => { input: AnalyserNode | null; output: AnalyserNode | null };
+  active: boolean;
+}
+
+// Meter scale and marks, dBFS
+const SCALE_MIN_DB = -60;
+const SCALE_MARKS = [-48, -36, -24, -12, -6, 0];
+const HOT_DB = -1;
+// Hints: speech peaks below this are too quiet, a floor above this too noisy
+const QUIET_PEAK_DB = -36;
+const NOISY_FLOOR_DB = -45;
+// Spectrum display range (analyser dB per bin) and resolution
+const SPECTRUM_MIN_DB = -110;
+const SPECTRUM_MAX_DB = -30;
+const SPECTRUM_BANDS = 64;
+const CANVAS_WIDTH = 256;
+const CANVAS_HEIGHT = 64;
+
+const toPercent = (db: number) => `${Math.max(0, Math.min(100, ((db - SCALE_MIN_DB) / -SCALE_MIN_DB) * 100))}%`;
+const fmtDb = (db: number | null) => (db === null ? '—' : db <= MIN_DB ? '-∞' : db.toFixed(1));
+const intensity = (db: number) => Math.max(0, Math.min(1, (db - SPECTRUM_MIN_DB) / (SPECTRUM_MAX_DB - SPECTRUM_MIN_DB)));
+
+// Bins grouped into bands on a log frequency axis (speech lives low), strongest
+// bin per band. Bands are contiguous from bin 0; the lowest get one bin each
+// until the log spacing grows wider than a bin.
+function toBands(spectrum: Float32Array, bands: Float32Array) {
+  const bins = spectrum.length;
+  let from = 0;
+  for (let b = 0; b < bands.length; b++) {
+    const to = Math.min(bins, Math.max(from + 1, Math.floor(bins ** ((b + 1) / bands.length))));
+    let max = -Infinity;
+    for (let i = from; i < to; i++) max = Math.max(max, spectrum[i]);
+    bands[b] = max;
+    from = to;
+  }
+}
+
+function hint(levels: SignalLevels): string {
+  if (levels.clipping) return 'Clipping: lower the input level';
+  if (levels.noiseFloorDb !== null && levels.noiseFloorDb > NOISY_FLOOR_DB) return 'High noise floor';
+  if (levels.peakHoldDb < QUIET_PEAK_DB && levels.peakHoldDb > MIN_DB) return 'Very quiet';
+  return '';
+}
+
+interface ChannelHandle {
+  draw: (analyser: AnalyserNode | null) => void;
+}
+
+// One analyser: meter, readouts, spectrum and spectrogram. draw() writes
+// straight to the DOM and canvases, nothing here re-renders per frame.
+const ScopeChannel = forwardRef<ChannelHandle, { label: string; colorClass: string }>(({ label, colorClass }, ref) => {
+  const analyzerRef = useRef<SignalAnalyzer | null>(null);
+  const bandsRef = useRef(new Float32Array(SPECTRUM_BANDS));
+  const rmsRef = useRef<HTMLDivElement>(null);
+  const peakRef = useRef<HTMLDivElement>(null);
+  const holdRef = useRef<HTMLDivElement>(null);
+  const readoutRef = useRef<HTMLSpanElement>(null);
+  const clipsRef = useRef<HTMLButtonElement>(null);
+  const hintRef = useRef<HTMLSpanElement>(null);
+  const spectrumRef = useRef<HTMLCanvasElement>(null);
+  const spectrogramRef = useRef<HTMLCanvasElement>(null);
+
+  useImperativeHandle(ref, () => ({
+    draw: (analyser) => {
+      if (analyser !== analyzerRef.current?.analyser) {
+        analyzerRef.current = analyser ? new SignalAnalyzer(analyser) : null;
+      }
+      const analyzer = analyzerRef.current;
+      if (!analyzer) return;
+
+      const levels = analyzer.read();
+      if (rmsRef.current) rmsRef.current.style.width = toPercent(levels.rmsDb);
+      if (peakRef.current) peakRef.current.style.width = toPercent(levels.peakDb);
+      if (holdRef.current) {
+        holdRef.current.style.left = toPercent(levels.peakHoldDb);
+        holdRef.current.style.backgroundColor = levels.peakHoldDb >= HOT_DB ? '#f87171' : '#f1f5f9';
+      }
+      if (readoutRef.current) {
+        readoutRef.current.textContent =
+          `RMS ${fmtDb(levels.rmsDb)} · Peak ${fmtDb(levels.peakHoldDb)} · Floor ${fmtDb(levels.noiseFloorDb)} dBFS`;
+      }
+      if (clipsRef.current) {
+        clipsRef.current.textContent = `${levels.clips} clip${levels.clips === 1 ? '' : 's'}`;
+        clipsRef.current.style.color = levels.clips > 0 ? '#f87171' : '';
+      }
+      if (hintRef.current) hintRef.current.textContent = hint(levels);
+
+      const bands = bandsRef.current;
+      toBands(analyzer.spectrum(), bands);
+      const spectrum = spectrumRef.current?.getContext('2d');
+      if (spectrum) {
+        spectrum.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        spectrum.fillStyle = '#818cf8';
+        const width = CANVAS_WIDTH / bands.length;
+        bands.forEach((db, i) => {
+          const height = intensity(db) * CANVAS_HEIGHT;
+          spectrum.fillRect(i * width, CANVAS_HEIGHT - height, width - 1, height);
+        });
+      }
+      // Spectrogram: shift left a pixel, newest column on the right, low frequencies at the bottom
+      const spectrogram = spectrogramRef.current?.getContext('2d');
+      if (spectrogram && spectrogramRef.current) {
+        spectrogram.drawImage(spectrogramRef.current, -1, 0);
+        const rowHeight = CANVAS_HEIGHT / bands.length;
+        bands.forEach((db, i) => {
+          const level = intensity(db);
+          spectrogram.fillStyle = `hsl(${240 - level * 200}, 80%, ${level * 60}%)`;
+          spectrogram.fillRect(CANVAS_WIDTH - 1, CANVAS_HEIGHT - (i + 1) * rowHeight, 1, rowHeight);
+        });
+      }
+    },
+  }), []);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-end justify-between gap-2">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{label}</span>
+        <span ref={hintRef} className="flex-1 text-right text-[10px] text-amber-400" />
+        <button
+          ref={clipsRef}
+          onClick={() => analyzerRef.current?.resetClips()}
+          title="Reset the clip counter"
+          className="text-[10px] text-slate-500 hover:text-white"
+        >
+          0 clips
+        </button>
+      </div>
+      <div className="relative h-3 w-full bg-slate-950 rounded-sm overflow-hidden border border-slate-800">
+        <div ref={peakRef} className={`absolute inset-y-0 left-0 ${colorClass} opacity-30`} style={{ width: '0%' }} />
+        <div ref={rmsRef} className={`absolute inset-y-0 left-0 ${colorClass}`} style={{ width: '0%' }} />
+        <div ref={holdRef} className="absolute inset-y-0 w-0.5 -ml-0.5" style={{ left: '0%' }} />
+      </div>
+      <div className="relative h-3 text-[9px] text-slate-600">
+        {SCALE_MARKS.map(db => (
+          <span key={db} className="absolute -translate-x-1/2" style={{ left: toPercent(db) }}>{db}</span>
+        ))}
+      </div>
+      <span ref={readoutRef} className="block text-slate-300">—</span>
+      <div className="grid grid-cols-2 gap-2">
+        <canvas ref={spectrumRef} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} className="w-full h-16 bg-slate-950 rounded-sm border border-slate-800" />
+        <canvas ref={spectrogramRef} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} className="w-full h-16 bg-slate-950 rounded-sm border border-slate-800" />
+      </div>
+    </div>
+  );
+});
+
+ScopeChannel.displayName = 'ScopeChannel';
+
+// dBFS meters with peak hold, clip counter, noise floor, spectrum and
+// spectrogram for both meter taps. Runs only while open and live.
+export const AudioScopePanel: React.FC<AudioScopePanelProps> = ({ getAnalysers, active }) => {
+  const [open, setOpen] = useState(false);
+  const inputRef = useRef<ChannelHandle>(null);
+  const outputRef = useRef<ChannelHandle>(null);
+
+  useEffect(() => {
+    if (!open || !active) return;
+    let frame = requestAnimationFrame(function update() {
+      const { input, output } = getAnalysers();
+      inputRef.current?.draw(input);
+      outputRef.current?.draw(output);
+      frame = requestAnimationFrame(update);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [open, active, getAnalysers]);
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-wider"
+      >
+        <span>Audio Levels</span>
+        <span className="text-slate-500">{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3 text-xs font-mono">
+          {!active && (
+            <p className="text-[10px] text-slate-500 font-sans">Start a session to see input and output levels.</p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <ScopeChannel ref={inputRef} label="Input" colorClass="bg-emerald-500" />
+            <ScopeChannel ref={outputRef} label="Output" colorClass="bg-amber-500" />
+          </div>
+          <p className="text-[10px] text-slate-500 font-sans">
+            Spectrum and spectrogram run from low to high frequencies on a log scale; the floor is the quietest 10% of the last 10 s.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BroadcastClient, BroadcastStartError } from '../services/broadcastClient';
+import { connectionError } from '../services/sessionState';
+import { LANGUAGES, languageName } from '../services/languageRegistry';
+import { AudioDevice, BroadcastTarget, Glossary, InputProcessing, InputSource, RelayConfig, SessionError, SessionState, VoiceSettings } from '../types';
+import { ErrorBanner } from './ErrorBanner';
+import { PegelMeter } from './PegelMeter';
+
+interface BroadcastPanelProps {
+  input: InputSource;
+  inputProcessing: InputProcessing;
+  source: string; // spoken language code
+  outputDevices: AudioDevice[];
+  voiceFor: (languageCode: string) => VoiceSettings;
+  glossaryFor: (target: string) => Glossary | undefined;
+  relay?: RelayConfig;
+  disabled?: boolean; // the single interpreter session is running
+  onRunningChange: (running: boolean) => void;
+}
+
+const selectClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 focus:outline-none disabled:opacity-50 appearance-none";
+const buttonClass = "px-2.5 py-1 rounded border border-slate-600 bg-slate-900 text-xs text-slate-300 hover:border-indigo-500 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const newTarget = (language: string): BroadcastTarget => ({
+  id: `target-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  language,
+  speakerDeviceId: '',
+});
+
+// One speaker, several target languages, each on its own output device
+export const BroadcastPanel: React.FC<BroadcastPanelProps> = ({ input, inputProcessing, source, outputDevices, voiceFor, glossaryFor, relay, disabled, onRunningChange }) => {
+  const [open, setOpen] = useState(false);
+  const [targets, setTargets] = useState<BroadcastTarget[]>(() => [newTarget('en'), newTarget('de')]);
+  const [running, setRunning] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [states, setStates] = useState<Record<string, SessionState>>({});
+  const [errors, setErrors] = useState<Record<string, SessionError>>({});
+  const [startError, setStartError] = useState<SessionError | null>(null);
+  const [muted, setMuted] = useState<string[]>([]);
+  const [solo, setSolo] = useState<string | null>(null);
+
+  const clientRef = useRef<BroadcastClient | null>(null);
+  const inputMeterRef = useRef<HTMLDivElement>(null);
+  // Direct DOM meters per target (no React re-renders)
+  const meterRefs = useRef(new Map<string, HTMLDivElement>());
+
+  useEffect(() => () => { clientRef.current?.stop(); }, []);
+  useEffect(() => onRunningChange(running || loading), [running, loading, onRunningChange]);
+  useEffect(() => clientRef.current?.updateInputProcessing(inputProcessing), [inputProcessing]);
+
+  const updateTarget = (id: string, patch: Partial<BroadcastTarget>) => {
+    setTargets(ts => ts.map(t => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const start = async () => {
+    if (running || loading || targets.length === 0) return;
+    setLoading(true);
+    setStates({});
+    setErrors({});
+    setStartError(null);
+    const client = new BroadcastClient();
+    clientRef.current = client;
+    muted.forEach(id => client.setMuted(id, true));
+    client.setSolo(solo);
+    try {
+      await client.start({
+        input,
+        inputProcessing,
+        source,
+        targets,
+        voiceFor,
+        glossaryFor,
+        relay,
+        onVolumeChange: (id, volume) => {
+          const el = id === 'input' ? inputMeterRef.current : meterRefs.current.get(id);
+          if (el) el.style.width = `${Math.min(100, volume * 100)}%`;
+        },
+        onStateChange: (id, state) => setStates(s => ({ ...s, [id]: state })),
+        onError: (id, error) => setErrors(e => ({ ...e, [id]: error })),
+        // Every target is down: the client stopped itself
+        onFailed: (error) => {
+          if (clientRef.current !== client) return;
+          clientRef.current = null;
+          setRunning(false);
+          setStartError(error);
+          resetMeters();
+        },
+      });
+      setRunning(true);
+    } catch (err) {
+      console.error(err);
+      clientRef.current = null;
+      // Sessions report their own errors per target as well
+      setStartError(err instanceof BroadcastStartError
+        ? err.error
+        : connectionError(err instanceof Error ? err.message : String(err)));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetMeters = () => {
+    if (inputMeterRef.current) inputMeterRef.current.style.width = '0%';
+    meterRefs.current.forEach(el => { el.style.width = '0%'; });
+  };
+
+  const stop = async () => {
+    await clientRef.current?.stop();
+    clientRef.current = null;
+    setRunning(false);
+    resetMeters();
+  };
+
+  const toggleMuted = (id: string) => {
+    const next = muted.includes(id) ? muted.filter(m => m !== id) : [...muted, id];
+    setMuted(next);
+    clientRef.current?.setMuted(id, next.includes(id));
+  };
+
+  const toggleSolo = (id: string) => {
+    const next = solo === id ? null : id;
+    setSolo(next);
+    clientRef.current?.setSolo(next);
+  };
+
+  const locked = running || loading || disabled;
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-wider"
+      >
+        <span>Broadcast {running && <span className="ml-2 normal-case font-mono text-emerald-400">● {targets.length} languages live</span>}</span>
+        <span className="text-slate-500">{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <p className="text-[10px] text-slate-500">
+            Interprets the selected input from {languageName(source)} into several languages at once, each on its own output device.
+          </p>
+
+          {startError && <ErrorBanner error={startError} onDismiss={() => setStartError(null)} />}
+
+          <PegelMeter ref={inputMeterRef} label="Broadcast Input" colorClass="bg-emerald-500" />
+
+          <div className="space-y-2">
+            {targets.map(target => (
+              <div key={target.id} className="grid grid-cols-1 md:grid-cols-[8rem_1fr_1fr_auto] gap-2 items-end">
+                <select
+                  value={target.language}
+                  onChange={e => updateTarget(target.id, { language: e.target.value })}
+                  disabled={locked}
+                  className={selectClass}
+                >
+                  {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+                </select>
+                <select
+                  value={target.speakerDeviceId}
+                  onChange={e => updateTarget(target.id, { speakerDeviceId: e.target.value })}
+                  disabled={locked}
+                  className={selectClass}
+                >
+                  <option value="">Default Speaker</option>
+                  {outputDevices.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+                </select>
+                <PegelMeter
+                  ref={el => {
+                    if (el) meterRefs.current.set(target.id, el);
+                    else meterRefs.current.delete(target.id);
+                  }}
+                  label={languageName(target.language)}
+                  colorClass="bg-amber-500"
+                  badge={running && (
+                    <span
+                      title={errors[target.id]?.message}
+                      className={`text-[10px] font-bold font-mono uppercase tracking-widest ${states[target.id] === 'error' ? 'text-red-400' : 'text-slate-500'}`}
+                    >
+                      {states[target.id] === 'error' ? errors[target.id]?.kind ?? 'error' : states[target.id] === 'reconnecting' ? 'reconnecting…' : states[target.id] ?? '…'}
+                    </span>
+                  )}
+                />
+                <div className="flex gap-1">
+                  <button
+                    className={`${buttonClass} ${muted.includes(target.id) ? 'border-red-500 text-red-300' : ''}`}
+                    onClick={() => toggleMuted(target.id)}
+                    title="Mute this language"
+                  >M</button>
+                  <button
+                    className={`${buttonClass} ${solo === target.id ? 'border-amber-500 text-amber-300' : ''}`}
+                    onClick={() => toggleSolo(target.id)}
+                    title="Only hear this language"
+                  >S</button>
+                  <button
+                    className={buttonClass}
+                    onClick={() => setTargets(ts => ts.filter(t => t.id !== target.id))}
+                    disabled={locked || targets.length === 1}
+                    title="Remove language"
+                  >×</button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button className={buttonClass} onClick={() => setTargets(ts => [...ts, newTarget('fr')])} disabled={locked}>+ Language</button>
+            {running ? (
+              <button className={`${buttonClass} border-red-500/60 text-red-300`} onClick={stop}>Stop broadcast</button>
+            ) : (
+              <button className={buttonClass} onClick={start} disabled={locked || targets.length === 0}>
+                {loading ? 'Starting…' : 'Start broadcast'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
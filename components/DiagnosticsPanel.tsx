@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { INPUT_SAMPLE_RATE } from '../services/inputFeed';
+import { SessionMetrics } from '../services/sessionMetrics';
+import { MetricSummary, SessionMetricsSnapshot } from '../types';
+import { downloadBlob } from '../utils/download';
+
+interface DiagnosticsPanelProps {
+  getMetrics: () => SessionMetrics | null; // current session, or the last one
+  active: boolean;
+}
+
+const REFRESH_MS = 1000;
+// The recorder worklet posts 2048-sample buffers
+const EXPECTED_CHUNK_RATE = INPUT_SAMPLE_RATE / 2048;
+
+const fileStamp = (ms: number) => new Date(ms).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+const SummaryRow = ({ label, summary, unit, digits = 0 }: {
+  label: string; summary: MetricSummary; unit: string; digits?: number;
+}) => {
+  const fmt = (v: number) => summary.count ? `${v.toFixed(digits)}${unit}` : '—';
+  return (
+    <tr className="border-t border-slate-800">
+      <td className="py-1 pr-3 text-slate-400">{label}</td>
+      <td className="py-1 pr-3 text-right text-slate-200">{fmt(summary.last)}</td>
+      <td className="py-1 pr-3 text-right">{fmt(summary.p50)}</td>
+      <td className="py-1 pr-3 text-right">{fmt(summary.p95)}</td>
+      <td className="py-1 pr-3 text-right">{fmt(summary.max)}</td>
+      <td className="py-1 text-right text-slate-600">{summary.count}</td>
+    </tr>
+  );
+};
+
+const Counter = ({ label, value, warn }: { label: string; value: string | number; warn?: boolean }) => (
+  <div className="flex flex-col">
+    <span className="text-[10px] uppercase tracking-widest text-slate-500">{label}</span>
+    <span className={warn ? 'text-amber-400' : 'text-slate-200'}>{value}</span>
+  </div>
+);
+
+// Live latency / quality figures of the interpreter session, polled (not per frame)
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ getMetrics, active }) => {
+  const [open, setOpen] = useState(false);
+  const [snapshot, setSnapshot] = useState<SessionMetricsSnapshot | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const refresh = () => setSnapshot(getMetrics()?.snapshot() ?? null);
+    refresh();
+    if (!active) return;
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [open, active, getMetrics]);
+
+  const exportJson = () => {
+    const metrics = getMetrics();
+    if (!metrics) return;
+    downloadBlob(metrics.toJson(), `interpretation-metrics-${fileStamp(metrics.startedAt)}.json`, 'application/json');
+  };
+
+  // The VAD gate and push-to-talk hold back silence on purpose, the rate says nothing there
+  const info = getMetrics()?.info;
+  const gated = !!info && (info.vad || info.pushToTalk);
+  const lowRate = !!snapshot && active && !gated && snapshot.durationSeconds > 5 && snapshot.chunkRate < EXPECTED_CHUNK_RATE * 0.8;
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-wider"
+      >
+        <span>Diagnostics</span>
+        <span className="text-slate-500">{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3 text-xs font-mono">
+          {!snapshot ? (
+            <p className="text-[10px] text-slate-500 font-sans">Start a session to collect latency and quality figures.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <Counter label="Mic chunks/s" value={`${snapshot.chunkRate.toFixed(1)} / ${EXPECTED_CHUNK_RATE.toFixed(1)}`} warn={lowRate} />
+                <Counter label="Chunks sent" value={snapshot.chunksSent} />
+                <Counter label="Dropped" value={snapshot.inputDropped} warn={snapshot.inputDropped > 0} />
+                <Counter label="Send failures" value={snapshot.sendFailures} warn={snapshot.sendFailures > 0} />
+                <Counter label="Reconnects" value={snapshot.reconnects} warn={snapshot.reconnects > 0} />
+              </div>
+
+              <table className="w-full text-slate-400">
+                <thead>
+                  <tr className="text-[10px] uppercase tracking-widest text-slate-500">
+                    <th className="py-1 pr-3 text-left font-normal">Measure</th>
+                    <th className="py-1 pr-3 text-right font-normal">Last</th>
+                    <th className="py-1 pr-3 text-right font-normal">p50</th>
+                    <th className="py-1 pr-3 text-right font-normal">p95</th>
+                    <th className="py-1 pr-3 text-right font-normal">Max</th>
+                    <th className="py-1 text-right font-normal">n</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <SummaryRow label="Speech end → audio received" summary={snapshot.responseLatencyMs} unit=" ms" />
+                  <SummaryRow label="Speech end → audio heard" summary={snapshot.heardLatencyMs} unit=" ms" />
+                  <SummaryRow label="Decoder turnaround" summary={snapshot.decodeMs} unit=" ms" digits={1} />
+                  <SummaryRow label="Playback backlog" summary={snapshot.backlogSeconds} unit=" s" digits={2} />
+                </tbody>
+              </table>
+
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-slate-500">{snapshot.durationSeconds.toFixed(0)}s {active ? 'running' : 'last session'}</span>
+                <button
+                  onClick={exportJson}
+                  className="px-2.5 py-1 rounded border border-slate-600 bg-slate-900 text-xs font-mono text-slate-300 hover:border-indigo-500 hover:text-white transition-colors"
+                >
+                  Export JSON
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
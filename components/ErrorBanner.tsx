@@ -0,0 +1,31 @@
+import React from 'react';
+import { SessionError, SessionErrorKind } from '../types';
+
+interface ErrorBannerProps {
+  error: SessionError;
+  onDismiss: () => void;
+}
+
+const TITLES: Record<SessionErrorKind, string> = {
+  permission: 'Permission needed',
+  input: 'Input unavailable',
+  auth: 'API key rejected',
+  quota: 'Quota exhausted',
+  config: 'Session setup rejected',
+  network: 'Connection lost',
+  unknown: 'Something went wrong',
+};
+
+// Inline replacement for alert(): what went wrong and what to do about it
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onDismiss }) => (
+  <div role="alert" className="flex items-start gap-3 px-4 py-3 rounded-xl border border-red-500/30 bg-red-500/10 text-sm">
+    <div className="flex-1 space-y-0.5">
+      <p className="text-xs font-bold uppercase tracking-wider text-red-300">{TITLES[error.kind]}</p>
+      <p className="text-slate-200">{error.message}</p>
+      {error.detail && error.detail !== error.message && (
+        <p className="text-[10px] font-mono text-slate-500 break-all">{error.detail}</p>
+      )}
+    </div>
+    <button onClick={onDismiss} className="text-slate-500 hover:text-white" title="Dismiss">×</button>
+  </div>
+);
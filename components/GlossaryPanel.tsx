@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react';
+import { createGlossary, glossaryMatchesPair, glossaryToCsv, parseGlossaryCsv } from '../services/glossary';
+import { languageName } from '../services/languageRegistry';
+import { Glossary, GlossaryEntry, LanguagePair } from '../types';
+import { downloadBlob } from '../utils/download';
+
+interface GlossaryPanelProps {
+  glossaries: Glossary[];
+  onGlossariesChange: (glossaries: Glossary[]) => void;
+  activeId: string; // '' = no glossary
+  onActiveChange: (id: string) => void;
+  pair: LanguagePair;
+  disabled?: boolean; // selection is locked while a session runs
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 focus:outline-none disabled:opacity-50";
+const buttonClass = "px-2.5 py-1 rounded border border-slate-600 bg-slate-900 text-xs text-slate-300 hover:border-indigo-500 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ glossaries, onGlossariesChange, activeId, onActiveChange, pair, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const available = glossaries.filter(g => glossaryMatchesPair(g, pair));
+  const active = glossaries.find(g => g.id === activeId) ?? null;
+
+  const update = (id: string, patch: Partial<Glossary>) => {
+    onGlossariesChange(glossaries.map(g => (g.id === id ? { ...g, ...patch } : g)));
+  };
+
+  const updateEntry = (index: number, patch: Partial<GlossaryEntry>) => {
+    if (!active) return;
+    update(active.id, { entries: active.entries.map((e, i) => (i === index ? { ...e, ...patch } : e)) });
+  };
+
+  const addGlossary = () => {
+    const glossary = createGlossary(`${languageName(pair.source)} → ${languageName(pair.target)} terms`, pair);
+    onGlossariesChange([...glossaries, glossary]);
+    onActiveChange(glossary.id);
+  };
+
+  const deleteActive = () => {
+    if (!active || !confirm(`Delete glossary "${active.name}"?`)) return;
+    onGlossariesChange(glossaries.filter(g => g.id !== active.id));
+    onActiveChange('');
+  };
+
+  // Imported terms are merged into the active glossary, or start a new one
+  const importFile = async (file: File) => {
+    const { entries, doNotTranslate } = parseGlossaryCsv(await file.text());
+    if (active) {
+      update(active.id, {
+        entries: [...active.entries, ...entries],
+        doNotTranslate: Array.from(new Set([...active.doNotTranslate, ...doNotTranslate])),
+      });
+    } else {
+      const glossary = { ...createGlossary(file.name.replace(/\.(csv|tsv|txt)$/i, ''), pair), entries, doNotTranslate };
+      onGlossariesChange([...glossaries, glossary]);
+      onActiveChange(glossary.id);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-wider"
+      >
+        <span>Glossary {active && <span className="ml-2 normal-case font-mono text-indigo-300">{active.name} · {active.entries.length} terms</span>}</span>
+        <span className="text-slate-500">{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={activeId}
+              onChange={e => onActiveChange(e.target.value)}
+              disabled={disabled}
+              className={`${inputClass} max-w-xs`}
+            >
+              <option value="">No glossary</option>
+              {available.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+            </select>
+            <button className={buttonClass} onClick={addGlossary} disabled={disabled}>New</button>
+            <button className={buttonClass} onClick={() => fileRef.current?.click()}>Import CSV/TSV</button>
+            <button className={buttonClass} onClick={() => active && downloadBlob(glossaryToCsv(active), `${active.name}.csv`, 'text/csv')} disabled={!active}>Export</button>
+            <button className={buttonClass} onClick={deleteActive} disabled={!active || disabled}>Delete</button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {active && (
+            <>
+              <input
+                value={active.name}
+                onChange={e => update(active.id, { name: e.target.value })}
+                className={inputClass}
+                placeholder="Glossary name"
+              />
+
+              <div className="max-h-56 overflow-y-auto space-y-1">
+                <div className="grid grid-cols-[1fr_1fr_1fr_1.5rem] gap-2 text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+                  <span>{languageName(active.source)}</span><span>{languageName(active.target)}</span><span>Note</span><span />
+                </div>
+                {active.entries.map((entry, i) => (
+                  <div key={i} className="grid grid-cols-[1fr_1fr_1fr_1.5rem] gap-2">
+                    <input className={inputClass} value={entry.source} onChange={e => updateEntry(i, { source: e.target.value })} />
+                    <input className={inputClass} value={entry.target} onChange={e => updateEntry(i, { target: e.target.value })} />
+                    <input className={inputClass} value={entry.note ?? ''} onChange={e => updateEntry(i, { note: e.target.value || undefined })} />
+                    <button
+                      className="text-slate-500 hover:text-red-400"
+                      onClick={() => update(active.id, { entries: active.entries.filter((_, j) => j !== i) })}
+                      title="Remove term"
+                    >×</button>
+                  </div>
+                ))}
+              </div>
+              <button
+                className={buttonClass}
+                onClick={() => update(active.id, { entries: [...active.entries, { source: '', target: '' }] })}
+              >
+                + Term
+              </button>
+
+              <div className="space-y-1">
+                <span className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">Do not translate (one per line)</span>
+                <textarea
+                  value={active.doNotTranslate.join('\n')}
+                  onChange={e => update(active.id, { doNotTranslate: e.target.value.split('\n') })}
+                  onBlur={() => update(active.id, { doNotTranslate: active.doNotTranslate.map(t => t.trim()).filter(Boolean) })}
+                  rows={3}
+                  className={inputClass}
+                />
+              </div>
+              {disabled && <p className="text-[10px] text-slate-500">Changes apply to the next session.</p>}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
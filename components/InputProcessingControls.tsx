@@ -0,0 +1,60 @@
+import React from 'react';
+import { InputProcessing } from '../types';
+
+interface InputProcessingControlsProps {
+  config: InputProcessing;
+  onChange: (config: InputProcessing) => void;
+  locked?: boolean; // browser processing is fixed once the mic is open, gain and low cut aren't
+}
+
+const LOW_CUT_OPTIONS = [0, 60, 80, 100, 120, 150, 200];
+
+const BROWSER_FLAGS: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancel' },
+  { key: 'noiseSuppression', label: 'Noise supp.' },
+  { key: 'autoGainControl', label: 'Auto gain' },
+];
+
+// Browser-side mic processing, input gain and low cut
+export const InputProcessingControls: React.FC<InputProcessingControlsProps> = ({ config, onChange, locked }) => (
+  <div className="space-y-2">
+    <div className="flex flex-wrap gap-x-3 gap-y-1">
+      {BROWSER_FLAGS.map(({ key, label }) => (
+        <label key={key} className="flex items-center gap-1.5 text-[10px] font-mono text-slate-500 uppercase tracking-widest cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config[key]}
+            onChange={e => onChange({ ...config, [key]: e.target.checked })}
+            disabled={locked}
+            className="accent-indigo-500"
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+    <div className="grid grid-cols-2 gap-3">
+      <label className="flex flex-col gap-1 text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+        <span className="flex justify-between">Gain<span className="text-slate-300">{config.gainDb > 0 ? '+' : ''}{config.gainDb} dB</span></span>
+        <input
+          type="range"
+          min={-12}
+          max={24}
+          step={1}
+          value={config.gainDb}
+          onChange={e => onChange({ ...config, gainDb: Number(e.target.value) })}
+          className="accent-indigo-500"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+        Low cut
+        <select
+          value={config.highPassHz}
+          onChange={e => onChange({ ...config, highPassHz: Number(e.target.value) })}
+          className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 focus:outline-none appearance-none"
+        >
+          {LOW_CUT_OPTIONS.map(hz => <option key={hz} value={hz}>{hz ? `${hz} Hz` : 'Off'}</option>)}
+        </select>
+      </label>
+    </div>
+  </div>
+);
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { languageName } from '../services/languageRegistry';
+import { defaultRelayUrl, RelayMessage } from '../services/relayProtocol';
+import { base64ToUint8Array } from '../utils/audioUtils';
+
+const RECONNECT_DELAY_MS = 2000;
+// A phone that was asleep shouldn't play minutes of backlog: skip ahead
+const MAX_LAG_SECONDS = 1.5;
+
+// Audience page (listener.html): pick a language, hear the interpretation
+export const ListenerView: React.FC = () => {
+  const relayUrl = new URLSearchParams(location.search).get('relay') || defaultRelayUrl();
+  const [languages, setLanguages] = useState<string[]>([]);
+  const [language, setLanguage] = useState<string>(() => new URLSearchParams(location.search).get('lang') ?? '');
+  const [connected, setConnected] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [caption, setCaption] = useState('');
+
+  const contextRef = useRef<AudioContext | null>(null);
+  const nextStartTime = useRef(0);
+
+  // Pick the first channel once the relay tells us what there is
+  useEffect(() => {
+    if (!language && languages.length > 0) setLanguage(languages[0]);
+  }, [language, languages]);
+
+  useEffect(() => {
+    let ws: WebSocket | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let disposed = false;
+
+    const open = () => {
+      ws = new WebSocket(`${relayUrl}/listen${language ? `?lang=${encodeURIComponent(language)}` : ''}`);
+      ws.onopen = () => setConnected(true);
+      ws.onclose = () => {
+        setConnected(false);
+        if (!disposed) timer = setTimeout(open, RECONNECT_DELAY_MS);
+      };
+      ws.onmessage = (event) => {
+        let message: RelayMessage | null;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        // Not a relay frame: ignore it
+        if (!message) return;
+        if (message.type === 'channels') setLanguages(message.languages);
+        else if (message.type === 'caption') setCaption(message.text);
+        else if (message.type === 'audio') playChunk(message.data, message.sampleRate);
+      };
+    };
+    open();
+    setCaption('');
+
+    return () => {
+      disposed = true;
+      if (timer) clearTimeout(timer);
+      ws?.close();
+    };
+  }, [relayUrl, language]);
+
+  useEffect(() => () => { contextRef.current?.close(); }, []);
+
+  const playChunk = (base64: string, sampleRate: number) => {
+    const context = contextRef.current;
+    if (!context) return;
+    const bytes = base64ToUint8Array(base64);
+    const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+    const buffer = context.createBuffer(1, int16.length, sampleRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < int16.length; i++) channel[i] = int16[i] / 32768;
+
+    const now = context.currentTime;
+    // Gapless scheduling
+    if (nextStartTime.current < now || nextStartTime.current - now > MAX_LAG_SECONDS) {
+      nextStartTime.current = now + 0.05;
+    }
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.start(nextStartTime.current);
+    nextStartTime.current += buffer.duration;
+  };
+
+  // Audio needs a tap first on phones (autoplay policy)
+  const start = async () => {
+    const AudioContext = window.AudioContext || window.webkitAudioContext;
+    const context: AudioContext = contextRef.current ?? new AudioContext({ sampleRate: 24000 });
+    contextRef.current = context;
+    await context.resume();
+    nextStartTime.current = 0;
+    setPlaying(true);
+  };
+
+  return (
+    <div className="min-h-full flex flex-col items-center justify-center gap-8 p-6 bg-slate-950 text-slate-200">
+      <h1 className="text-sm font-bold text-slate-400 uppercase tracking-widest">Live Interpretation</h1>
+
+      <select
+        value={language}
+        onChange={e => setLanguage(e.target.value)}
+        className="w-full max-w-xs bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-lg text-slate-100 focus:ring-1 focus:ring-indigo-500 focus:outline-none"
+      >
+        {languages.length === 0 && <option value="">Waiting for interpreter…</option>}
+        {languages.map(code => <option key={code} value={code}>{languageName(code)}</option>)}
+      </select>
+
+      {!playing ? (
+        <button
+          onClick={start}
+          className="w-40 h-40 rounded-full bg-indigo-600 hover:bg-indigo-500 text-2xl font-bold shadow-2xl shadow-indigo-900/50 transition-colors"
+        >
+          ▶ Listen
+        </button>
+      ) : (
+        <div className="w-40 h-40 rounded-full border-2 border-emerald-500/60 flex items-center justify-center text-emerald-400 font-mono text-sm tracking-widest">
+          ● ON AIR
+        </div>
+      )}
+
+      <p className="min-h-[4rem] max-w-md text-center text-lg leading-relaxed text-slate-300">{caption}</p>
+
+      <span className={`text-[10px] font-mono uppercase tracking-widest ${connected ? 'text-emerald-500' : 'text-slate-600'}`}>
+        {connected ? 'Connected' : 'Connecting to relay…'}
+      </span>
+    </div>
+  );
+};
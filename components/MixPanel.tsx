@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { MixConfig } from '../types';
+
+interface MixPanelProps {
+  config: MixConfig;
+  onChange: (config: MixConfig) => void; // applies live
+}
+
+const Level = ({ label, value, onChange, disabled }: {
+  label: string; value: number; onChange: (v: number) => void; disabled?: boolean;
+}) => (
+  <label className="flex flex-col gap-1 text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+    <span className="flex justify-between">{label}<span className="text-slate-300">{Math.round(value * 100)}%</span></span>
+    <input
+      type="range"
+      min={0}
+      max={1}
+      step={0.05}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      disabled={disabled}
+      className="accent-indigo-500 disabled:opacity-50"
+    />
+  </label>
+);
+
+// Broadcast-style mix: original speaker faintly under the interpretation
+export const MixPanel: React.FC<MixPanelProps> = ({ config, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-wider"
+      >
+        <span>Output Mix {config.originalEnabled && <span className="ml-2 normal-case font-mono text-indigo-300">original {config.stereoSplit ? 'left · interpretation right' : 'ducked under interpretation'}</span>}</span>
+        <span className="text-slate-500">{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={config.originalEnabled}
+                onChange={e => onChange({ ...config, originalEnabled: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              Original under interpretation
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={config.stereoSplit}
+                onChange={e => onChange({ ...config, stereoSplit: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              Stereo split (original L, interpretation R)
+            </label>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Level label="Original" value={config.originalLevel} disabled={!config.originalEnabled}
+              onChange={originalLevel => onChange({ ...config, originalLevel })} />
+            <Level label="Duck to" value={config.duckLevel} disabled={!config.originalEnabled || config.stereoSplit}
+              onChange={duckLevel => onChange({ ...config, duckLevel })} />
+            <Level label="Interpretation" value={config.interpretationLevel}
+              onChange={interpretationLevel => onChange({ ...config, interpretationLevel })} />
+          </div>
+          {config.originalEnabled && (
+            <p className="text-[10px] text-slate-500">Monitor on headphones: the original on open speakers feeds back into the microphone.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { CatchUpStrategy, PlaybackConfig } from '../types';
+
+interface PlaybackControlsProps {
+  config: PlaybackConfig;
+  onChange: (config: PlaybackConfig) => void; // applies live
+}
+
+// Maximum lag of the translation behind the speaker and how to catch up
+export const PlaybackControls: React.FC<PlaybackControlsProps> = ({ config, onChange }) => (
+  <div className="space-y-1">
+    <label className="flex items-center gap-2 text-[10px] font-mono text-slate-500 uppercase tracking-widest cursor-pointer">
+      <input
+        type="checkbox"
+        checked={config.enabled}
+        onChange={e => onChange({ ...config, enabled: e.target.checked })}
+        className="accent-indigo-500"
+      />
+      Limit lag
+    </label>
+    {config.enabled && (
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1 text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+          <span className="flex justify-between">Max<span className="text-slate-300">{(config.maxLagMs / 1000).toFixed(1)} s</span></span>
+          <input
+            type="range"
+            min={1000}
+            max={10000}
+            step={500}
+            value={config.maxLagMs}
+            onChange={e => onChange({ ...config, maxLagMs: Number(e.target.value) })}
+            className="accent-indigo-500"
+          />
+        </label>
+        <select
+          value={config.catchUp}
+          onChange={e => onChange({ ...config, catchUp: e.target.value as CatchUpStrategy })}
+          className="self-end bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 focus:outline-none appearance-none"
+        >
+          <option value="speedup">Speed up</option>
+          <option value="trim">Trim pauses</option>
+          <option value="drop">Drop oldest</option>
+        </select>
+      </div>
+    )}
+  </div>
+);
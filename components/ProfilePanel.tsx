@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { languageName } from '../services/languageRegistry';
+import { parseProfileJson, profileToJson } from '../services/settings';
+import { InterpreterProfile } from '../types';
+import { downloadBlob } from '../utils/download';
+
+interface ProfilePanelProps {
+  profiles: InterpreterProfile[];
+  onProfilesChange: (profiles: InterpreterProfile[]) => void;
+  onSave: (name: string) => InterpreterProfile; // snapshot of the current setup
+  onApply: (profile: InterpreterProfile) => void;
+  disabled?: boolean; // no switching while a session runs
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500 focus:outline-none disabled:opacity-50";
+const buttonClass = "px-2.5 py-1 rounded border border-slate-600 bg-slate-900 text-xs text-slate-300 hover:border-indigo-500 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Named interpreter setups, shared between booth machines as JSON files
+export const ProfilePanel: React.FC<ProfilePanelProps> = ({ profiles, onProfilesChange, onSave, onApply, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState('');
+  const [name, setName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const selected = profiles.find(p => p.id === selectedId) ?? null;
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setSelectedId(onSave(trimmed).id);
+    setName('');
+  };
+
+  const deleteSelected = () => {
+    if (!selected || !confirm(`Delete profile "${selected.name}"?`)) return;
+    onProfilesChange(profiles.filter(p => p.id !== selected.id));
+    setSelectedId('');
+  };
+
+  // Importing the same profile again replaces it
+  const importFile = async (file: File) => {
+    try {
+      const profile = parseProfileJson(await file.text());
+      onProfilesChange([...profiles.filter(p => p.id !== profile.id), profile]);
+      setSelectedId(profile.id);
+      setImportError(null);
+    } catch (e) {
+      setImportError(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-wider"
+      >
+        <span>Profiles {profiles.length > 0 && <span className="ml-2 normal-case font-mono text-slate-500">{profiles.length} saved</span>}</span>
+        <span className="text-slate-500">{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={selectedId}
+              onChange={e => setSelectedId(e.target.value)}
+              className={`${inputClass} max-w-xs`}
+            >
+              <option value="">Select a profile…</option>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <button className={buttonClass} onClick={() => selected && onApply(selected)} disabled={!selected || disabled}>Apply</button>
+            <button
+              className={buttonClass}
+              onClick={() => selected && downloadBlob(profileToJson(selected), `${selected.name}.profile.json`, 'application/json')}
+              disabled={!selected}
+            >
+              Export
+            </button>
+            <button className={buttonClass} onClick={() => fileRef.current?.click()}>Import</button>
+            <button className={buttonClass} onClick={deleteSelected} disabled={!selected}>Delete</button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {selected && (
+            <p className="text-[10px] font-mono text-slate-500">
+              {languageName(selected.pair.source)} {selected.pair.twoWay ? '↔' : '→'} {languageName(selected.pair.target)}
+              {selected.settings.mic?.label && ` · in: ${selected.settings.mic.label}`}
+              {selected.settings.speaker?.label && ` · out: ${selected.settings.speaker.label}`}
+              {selected.glossary && ` · glossary: ${selected.glossary.name}`}
+            </p>
+          )}
+          {importError && <p className="text-[10px] text-red-400">{importError}</p>}
+
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && save()}
+              placeholder="e.g. Booth 2 · EN→DE"
+              className={inputClass}
+            />
+            <button className={`${buttonClass} whitespace-nowrap`} onClick={save} disabled={!name.trim()}>Save current</button>
+          </div>
+          <p className="text-[10px] text-slate-500">
+            A profile holds the devices, language pair, voices, glossary and session options.
+            Devices missing on another machine fall back to its first device.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { SessionRecorder } from '../services/sessionRecorder';
+import { TranscriptTurn } from '../types';
+import { downloadBlob } from '../utils/download';
+import { toSrt, toTranscriptJson, toVtt } from '../utils/subtitles';
+
+interface RecordingPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  disabled?: boolean;
+  recording: SessionRecorder | null;
+  turns: TranscriptTurn[];
+}
+
+const fileStamp = (ms: number) => new Date(ms).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+const ExportButton = ({ label, onClick }: { label: string; onClick: () => void }) => (
+  <button
+    onClick={onClick}
+    className="px-2.5 py-1 rounded border border-slate-600 bg-slate-900 text-xs font-mono text-slate-300 hover:border-indigo-500 hover:text-white transition-colors"
+  >
+    {label}
+  </button>
+);
+
+export const RecordingPanel: React.FC<RecordingPanelProps> = ({ enabled, onEnabledChange, disabled, recording, turns }) => {
+  const base = recording ? `interpretation-${fileStamp(recording.startedAt)}` : 'interpretation';
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+      <label className="flex items-center gap-2 font-bold uppercase tracking-wider cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={e => onEnabledChange(e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-500"
+        />
+        Record session
+      </label>
+
+      {recording && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-slate-500 font-mono">{recording.durationSeconds.toFixed(1)}s ·</span>
+          <ExportButton label="WAV stereo" onClick={() => downloadBlob(recording.toStereoWav(), `${base}.wav`)} />
+          <ExportButton label="WAV original" onClick={() => downloadBlob(recording.toTrackWav('original'), `${base}-original.wav`)} />
+          <ExportButton label="WAV interp." onClick={() => downloadBlob(recording.toTrackWav('interpretation'), `${base}-interpretation.wav`)} />
+          <ExportButton label="SRT" onClick={() => downloadBlob(toSrt(turns, recording.startedAt), `${base}.srt`, 'application/x-subrip')} />
+          <ExportButton label="VTT" onClick={() => downloadBlob(toVtt(turns, recording.startedAt), `${base}.vtt`, 'text/vtt')} />
+          <ExportButton label="SRT original" onClick={() => downloadBlob(toSrt(turns, recording.startedAt, 'source'), `${base}-original.srt`, 'application/x-subrip')} />
+          <ExportButton label="VTT original" onClick={() => downloadBlob(toVtt(turns, recording.startedAt, 'source'), `${base}-original.vtt`, 'text/vtt')} />
+          <ExportButton label="JSON" onClick={() => downloadBlob(toTranscriptJson(turns, recording.startedAt), `${base}.json`, 'application/json')} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { RelayConfig } from '../types';
+
+interface RelayPanelProps {
+  config: RelayConfig;
+  onChange: (config: RelayConfig) => void;
+  disabled?: boolean; // applies to the next session
+}
+
+// Publishes the interpretation to server/relayServer.ts for listener.html
+export const RelayPanel: React.FC<RelayPanelProps> = ({ config, onChange, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const listenerUrl = `${location.protocol}//${location.host}/listener.html?relay=${encodeURIComponent(config.url)}`;
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-wider"
+      >
+        <span>Listener Relay {config.enabled && <span className="ml-2 normal-case font-mono text-indigo-300">{config.url}</span>}</span>
+        <span className="text-slate-500">{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.enabled}
+              onChange={e => onChange({ ...config, enabled: e.target.checked })}
+              disabled={disabled}
+              className="accent-indigo-500"
+            />
+            Stream the interpretation to listeners on the local network
+          </label>
+          <input
+            value={config.url}
+            onChange={e => onChange({ ...config, url: e.target.value })}
+            disabled={disabled}
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 focus:ring-1 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+            placeholder="ws://192.168.1.20:8790"
+          />
+          <input
+            value={config.token}
+            onChange={e => onChange({ ...config, token: e.target.value.trim() })}
+            disabled={disabled}
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 focus:ring-1 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+            placeholder="Publish token (printed by the relay)"
+          />
+          <p className="text-[10px] text-slate-500">
+            Start the relay with <span className="font-mono text-slate-400">npm run relay-server</span>, then open{' '}
+            <a href={listenerUrl} target="_blank" rel="noreferrer" className="font-mono text-indigo-300 hover:underline break-all">{listenerUrl}</a>{' '}
+            on the audience's phones (use the computer's LAN address instead of localhost).
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_SHORTCUTS, formatKey, SHORTCUT_LABELS } from '../services/shortcuts';
+import { ShortcutAction, ShortcutBindings } from '../types';
+
+interface ShortcutSettingsProps {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  // Global shortcuts must pause while a new key is being recorded
+  onCapturingChange: (capturing: boolean) => void;
+}
+
+export const ShortcutSettings: React.FC<ShortcutSettingsProps> = ({ bindings, onChange, onCapturingChange }) => {
+  const [open, setOpen] = useState(false);
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    onCapturingChange(capturing !== null);
+    if (!capturing) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code !== 'Escape') {
+        // A key can only trigger one action: unbind it elsewhere
+        const next = { ...bindings };
+        (Object.keys(next) as ShortcutAction[]).forEach(a => {
+          if (next[a] === e.code) next[a] = '';
+        });
+        next[capturing] = e.code;
+        onChange(next);
+      }
+      setCapturing(null);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [capturing, bindings, onChange, onCapturingChange]);
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-wider"
+      >
+        <span>Keyboard Shortcuts</span>
+        <span className="text-slate-500">{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2">
+          {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map(action => (
+            <div key={action} className="flex items-center justify-between gap-3 text-xs text-slate-300">
+              <span>{SHORTCUT_LABELS[action]}</span>
+              <button
+                onClick={() => setCapturing(action)}
+                className={`min-w-[5rem] px-2 py-1 rounded border font-mono transition-colors ${
+                  capturing === action
+                    ? 'border-indigo-500 text-indigo-300 animate-pulse'
+                    : 'border-slate-600 bg-slate-900 text-slate-200 hover:border-indigo-500'
+                }`}
+              >
+                {capturing === action ? 'Press key…' : formatKey(bindings[action])}
+              </button>
+            </div>
+          ))}
+          <div className="md:col-span-2 flex justify-end pt-1">
+            <button
+              onClick={() => onChange(DEFAULT_SHORTCUTS)}
+              className="text-[10px] font-mono text-slate-500 hover:text-white uppercase tracking-widest"
+            >
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptTurn } from '../types';
+
+interface TranscriptPanelProps {
+  turns: TranscriptTurn[];
+  sourceLabel?: string;
+  targetLabel?: string;
+}
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ turns, sourceLabel = 'Original', targetLabel = 'Interpretation' }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Only follow new captions while the user is at the bottom,
+  // so scrolling back to re-read a sentence isn't interrupted.
+  const stickToBottom = useRef(true);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && stickToBottom.current) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [turns]);
+
+  const onScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-xl border border-slate-800/50 flex flex-col min-h-0">
+      <div className="grid grid-cols-[4rem_1fr_1fr] gap-3 px-4 py-2 border-b border-slate-800 text-[10px] font-bold font-mono text-slate-500 uppercase tracking-widest">
+        <span>Time</span>
+        <span>{sourceLabel}</span>
+        <span>{targetLabel}</span>
+      </div>
+      <div ref={scrollRef} onScroll={onScroll} className="max-h-64 overflow-y-auto px-4 py-2 space-y-2">
+        {turns.length === 0 && (
+          <div className="text-xs text-slate-600 italic py-4 text-center">Captions will appear here once the session starts.</div>
+        )}
+        {turns.map(turn => (
+          <div key={turn.id} className={`grid grid-cols-[4rem_1fr_1fr] gap-3 text-sm ${turn.complete ? '' : 'opacity-80'}`}>
+            <span className="text-[10px] font-mono text-slate-500 pt-0.5">
+              {formatTime(turn.startedAt)}
+              {turn.direction && <span className="block text-slate-600">{turn.direction.source.toUpperCase()}→{turn.direction.target.toUpperCase()}</span>}
+            </span>
+            <p className="text-slate-300 whitespace-pre-wrap">{turn.source}</p>
+            <p className="text-amber-200 whitespace-pre-wrap">{turn.target}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { estimateCost, formatCost, totalTokens } from '../services/usage';
+import { CostRates, UsageTotals } from '../types';
+
+interface UsageBadgeProps {
+  usage: UsageTotals;
+  rates: CostRates;
+  startedAt: number; // epoch ms
+  overBudget?: boolean;
+}
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+// Running session totals next to the LIVE badge
+export const UsageBadge: React.FC<UsageBadgeProps> = ({ usage, rates, startedAt, overBudget }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const tokens = totalTokens(usage);
+  const title = [
+    `Input audio ${usage.inputAudioTokens} · other ${usage.inputOtherTokens}`,
+    `Output audio ${usage.outputAudioTokens} · other ${usage.outputOtherTokens}`,
+    overBudget ? 'Monthly budget exceeded' : '',
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div
+      title={title}
+      className={`px-2 py-0.5 rounded text-[10px] font-bold font-mono tracking-wider border ${
+        overBudget ? 'bg-amber-500/10 text-amber-400 border-amber-500/30' : 'bg-slate-800 text-slate-400 border-slate-700'
+      }`}
+    >
+      {formatDuration((now - startedAt) / 1000)} · {tokens.toLocaleString()} tok · {formatCost(estimateCost(usage, rates), rates.currency)}
+    </div>
+  );
+};
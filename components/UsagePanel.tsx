@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { languageName } from '../services/languageRegistry';
+import { formatCost, monthToDateCost, usageHistoryToCsv } from '../services/usage';
+import { CostRates, SessionUsageRecord, UsageSettings } from '../types';
+import { downloadBlob } from '../utils/download';
+
+interface UsagePanelProps {
+  settings: UsageSettings;
+  onSettingsChange: (settings: UsageSettings) => void;
+  history: SessionUsageRecord[];
+  onClearHistory: () => void;
+  runningCost: number; // current session, counted towards the budget
+}
+
+// Sessions listed in the panel (the stored history and CSV keep more)
+const VISIBLE_SESSIONS = 20;
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 focus:ring-1 focus:ring-indigo-500 focus:outline-none";
+const buttonClass = "px-2.5 py-1 rounded border border-slate-600 bg-slate-900 text-xs font-mono text-slate-300 hover:border-indigo-500 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const RATE_LABELS: Record<Exclude<keyof CostRates, 'currency'>, string> = {
+  inputAudio: 'Input audio',
+  inputOther: 'Input text',
+  outputAudio: 'Output audio',
+  outputOther: 'Output text',
+};
+
+const NumberField: React.FC<{
+  label: string; value: number; onChange: (v: number) => void; step?: number;
+}> = ({ label, value, onChange, step = 0.01 }) => (
+  <label className="flex flex-col gap-1 text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+    {label}
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={value}
+      onChange={e => onChange(Math.max(0, Number(e.target.value) || 0))}
+      className={inputClass}
+    />
+  </label>
+);
+
+// Per-session token usage, cost estimate and monthly budget
+export const UsagePanel: React.FC<UsagePanelProps> = ({ settings, onSettingsChange, history, onClearHistory, runningCost }) => {
+  const [open, setOpen] = useState(false);
+  const { rates } = settings;
+  const monthCost = monthToDateCost(history) + runningCost;
+  const overBudget = settings.monthlyBudget > 0 && monthCost >= settings.monthlyBudget;
+
+  const setRates = (patch: Partial<CostRates>) => onSettingsChange({ ...settings, rates: { ...rates, ...patch } });
+  const exportCsv = () => downloadBlob(usageHistoryToCsv(history), 'interpretation-usage.csv', 'text/csv');
+
+  return (
+    <div className="bg-slate-800/40 rounded-xl border border-slate-700/50">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-4 py-3 text-xs font-bold text-slate-400 uppercase tracking-wider"
+      >
+        <span>
+          Usage &amp; Cost
+          <span className={`ml-2 normal-case font-mono ${overBudget ? 'text-amber-400' : 'text-slate-500'}`}>
+            {formatCost(monthCost, rates.currency)} this month{settings.monthlyBudget > 0 && ` of ${formatCost(settings.monthlyBudget, rates.currency)}`}
+          </span>
+        </span>
+        <span className="text-slate-500">{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          {overBudget && (
+            <p className="text-xs text-amber-400">This month's sessions have reached the budget.</p>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <label className="flex flex-col gap-1 text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+              Project
+              <input
+                value={settings.project}
+                onChange={e => onSettingsChange({ ...settings, project: e.target.value })}
+                placeholder="Billed to…"
+                className={inputClass}
+              />
+            </label>
+            <NumberField label="Monthly budget" value={settings.monthlyBudget} step={1} onChange={v => onSettingsChange({ ...settings, monthlyBudget: v })} />
+            <label className="flex flex-col gap-1 text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+              Currency
+              <input
+                value={rates.currency}
+                onChange={e => setRates({ currency: e.target.value.toUpperCase() })}
+                maxLength={3}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {(Object.keys(RATE_LABELS) as (keyof typeof RATE_LABELS)[]).map(key => (
+              <NumberField key={key} label={`${RATE_LABELS[key]} /1M`} value={rates[key]} onChange={v => setRates({ [key]: v })} />
+            ))}
+          </div>
+
+          {history.length > 0 ? (
+            <table className="w-full text-xs font-mono text-slate-400">
+              <thead>
+                <tr className="text-[10px] uppercase tracking-widest text-slate-500">
+                  <th className="py-1 pr-3 text-left font-normal">Started</th>
+                  <th className="py-1 pr-3 text-left font-normal">Project</th>
+                  <th className="py-1 pr-3 text-left font-normal">Pair</th>
+                  <th className="py-1 pr-3 text-right font-normal">Min</th>
+                  <th className="py-1 text-right font-normal">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.slice(-VISIBLE_SESSIONS).reverse().map(record => (
+                  <tr key={record.id} className="border-t border-slate-800">
+                    <td className="py-1 pr-3">{new Date(record.startedAt).toLocaleString()}</td>
+                    <td className="py-1 pr-3 text-slate-300">{record.project || '—'}</td>
+                    <td className="py-1 pr-3">{languageName(record.pair.source)} → {languageName(record.pair.target)}</td>
+                    <td className="py-1 pr-3 text-right">{(record.durationSeconds / 60).toFixed(1)}</td>
+                    <td className="py-1 text-right text-slate-200">{formatCost(record.cost, record.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-[10px] text-slate-500">No sessions recorded yet.</p>
+          )}
+
+          <div className="flex gap-2">
+            <button className={buttonClass} onClick={exportCsv} disabled={history.length === 0}>Export CSV</button>
+            <button
+              className={buttonClass}
+              onClick={() => { if (confirm('Delete the usage history of all past sessions?')) onClearHistory(); }}
+              disabled={history.length === 0}
+            >
+              Clear history
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { VadConfig } from '../types';
+
+interface VadControlsProps {
+  config: VadConfig;
+  onChange: (config: VadConfig) => void;
+  locked?: boolean; // on/off can't change mid-session, the levels can
+}
+
+const Slider = ({ label, value, unit, min, max, step, onChange, disabled }: {
+  label: string; value: number; unit: string; min: number; max: number; step: number;
+  onChange: (v: number) => void; disabled?: boolean;
+}) => (
+  <label className="flex flex-col gap-1 text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+    <span className="flex justify-between">{label}<span className="text-slate-300">{value} {unit}</span></span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      disabled={disabled}
+      className="accent-indigo-500 disabled:opacity-50"
+    />
+  </label>
+);
+
+// Settings of the client-side speech gate
+export const VadControls: React.FC<VadControlsProps> = ({ config, onChange, locked }) => (
+  <div className="space-y-2">
+    <label className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-wider cursor-pointer">
+      <input
+        type="checkbox"
+        checked={config.enabled}
+        onChange={e => onChange({ ...config, enabled: e.target.checked })}
+        disabled={locked}
+        className="accent-indigo-500"
+      />
+      Voice activity gate
+    </label>
+    {config.enabled && (
+      <div className="grid grid-cols-3 gap-3">
+        <Slider label="Threshold" unit="dB" min={-70} max={-20} step={1} value={config.thresholdDb}
+          onChange={thresholdDb => onChange({ ...config, thresholdDb })} />
+        <Slider label="Hangover" unit="ms" min={100} max={2000} step={50} value={config.hangoverMs}
+          onChange={hangoverMs => onChange({ ...config, hangoverMs })} />
+        <Slider label="Pre-roll" unit="ms" min={0} max={1000} step={50} value={config.preRollMs}
+          onChange={preRollMs => onChange({ ...config, preRollMs })} />
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,61 @@
+import React from 'react';
+import { languageName } from '../services/languageRegistry';
+import { VOICES } from '../services/voices';
+import { SpeakingRate, SpeechRegister, VoiceSettings } from '../types';
+
+interface VoiceControlsProps {
+  settings: VoiceSettings;
+  onChange: (settings: VoiceSettings) => void;
+  languageCode: string; // target language the settings are saved for
+  onPreview: () => void;
+  previewing?: boolean;
+  disabled?: boolean; // voice is fixed once a session runs
+}
+
+const selectClass = "w-full bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-xs text-slate-300 focus:ring-1 focus:ring-indigo-500 focus:outline-none disabled:opacity-50 appearance-none";
+
+// Voice and speaking style of the interpretation, remembered per target language
+export const VoiceControls: React.FC<VoiceControlsProps> = ({ settings, onChange, languageCode, onPreview, previewing, disabled }) => (
+  <div className="space-y-1">
+    <span className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">Voice · {languageName(languageCode)}</span>
+    <div className="grid grid-cols-[1fr_auto] gap-2">
+      <select
+        value={settings.voiceName}
+        onChange={e => onChange({ ...settings, voiceName: e.target.value })}
+        disabled={disabled}
+        className={selectClass}
+      >
+        {VOICES.map(v => <option key={v.name} value={v.name}>{v.name} · {v.description}</option>)}
+      </select>
+      <button
+        onClick={onPreview}
+        disabled={disabled || previewing}
+        className="px-2.5 py-1 rounded border border-slate-600 bg-slate-900 text-xs text-slate-300 hover:border-indigo-500 hover:text-white transition-colors disabled:opacity-40"
+      >
+        {previewing ? 'Playing…' : '▶ Preview'}
+      </button>
+    </div>
+    <div className="grid grid-cols-2 gap-2">
+      <select
+        value={settings.rate}
+        onChange={e => onChange({ ...settings, rate: e.target.value as SpeakingRate })}
+        disabled={disabled}
+        className={selectClass}
+      >
+        <option value="slow">Slower tempo</option>
+        <option value="normal">Normal tempo</option>
+        <option value="fast">Faster tempo</option>
+      </select>
+      <select
+        value={settings.register}
+        onChange={e => onChange({ ...settings, register: e.target.value as SpeechRegister })}
+        disabled={disabled}
+        className={selectClass}
+      >
+        <option value="auto">Register: as spoken</option>
+        <option value="formal">Formal</option>
+        <option value="informal">Informal</option>
+      </select>
+    </div>
+  </div>
+);
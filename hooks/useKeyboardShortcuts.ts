@@ -0,0 +1,71 @@
+import { useEffect, useRef } from 'react';
+import { ShortcutAction, ShortcutBindings } from '../types';
+
+export type ShortcutHandlers = Partial<Record<Exclude<ShortcutAction, 'pushToTalk'>, () => void>> & {
+  // Hold-style action: called on key down and key up. Leave it out while
+  // push-to-talk is off, so its key (Space by default) keeps its normal use.
+  pushToTalk?: (pressed: boolean) => void;
+};
+
+const isEditable = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+};
+
+// Space / Enter on a focused button or link click it, they aren't shortcuts there
+const activatesControl = (e: KeyboardEvent) => {
+  const el = e.target as HTMLElement | null;
+  return !!el && ['Space', 'Enter', 'NumpadEnter'].includes(e.code)
+    && (['BUTTON', 'A'].includes(el.tagName) || el.getAttribute('role') === 'button');
+};
+
+// Global keyboard shortcuts. Handlers are read through a ref so callers can
+// pass fresh closures every render without re-binding the listeners.
+export function useKeyboardShortcuts(bindings: ShortcutBindings, handlers: ShortcutHandlers, enabled = true) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const actionFor = (code: string) =>
+      (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action] === code);
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Typing into a field never triggers shortcuts (function keys excepted)
+      if (isEditable(e.target) && !/^F\d+$/.test(e.code)) return;
+      if (activatesControl(e)) return;
+      // Bindings are bare keys: Ctrl/Cmd/Alt combinations (Ctrl+L, Cmd+O...) stay the browser's
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const action = actionFor(e.code);
+      if (!action || (action === 'pushToTalk' && !handlersRef.current.pushToTalk)) return;
+      e.preventDefault();
+      if (e.repeat) return;
+
+      if (action === 'pushToTalk') {
+        handlersRef.current.pushToTalk?.(true);
+      } else {
+        handlersRef.current[action]?.();
+      }
+    };
+
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (actionFor(e.code) === 'pushToTalk' && handlersRef.current.pushToTalk) {
+        e.preventDefault();
+        handlersRef.current.pushToTalk?.(false);
+      }
+    };
+
+    // Releasing the key outside the window would otherwise leave PTT stuck
+    const onBlur = () => handlersRef.current.pushToTalk?.(false);
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [bindings, enabled]);
+}
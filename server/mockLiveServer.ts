@@ -0,0 +1,349 @@
+// Local stand-in for the Gemini Live websocket.
+//
+// Speaks the same JSON message shapes as BidiGenerateContent, so the real SDK
+// (and LiveClient) can connect to it with `httpOptions.baseUrl`:
+//
+//   npm run mock-server -- --port 8787 --delay 150 --goaway-after 20000
+//   LIVE_BASE_URL=http://localhost:8787 npm run dev
+//
+// Without --script it acts as an "echo interpreter": every --turn-seconds of
+// received PCM is answered with captions and the same audio at 24 kHz.
+import { readFileSync } from 'fs';
+import { Blob as GenAIBlob, LiveClientMessage, LiveClientRealtimeInput, LiveClientSetup } from '@google/genai';
+import { WebSocket, WebSocketServer } from 'ws';
+
+interface MockOptions {
+  port: number;
+  script: MockScript | null;
+  delayMs: number;        // latency added to every server message
+  jitterMs: number;       // random extra latency (order is preserved)
+  turnSeconds: number;    // echo mode: audio per turn
+  dropAfterMs: number;    // close every connection with 1011 after this long (0 = never)
+  goAwayAfterMs: number;  // send goAway after this long (0 = never)
+  errorRate: number;      // chance per incoming message to kill the socket (1006)
+  failConnects: number;   // reject the first N connections
+  rejectCode: number;     // reject every setup with this close code (0 = accept)
+}
+
+// A scripted session: each step fires `at` ms after setup completed
+interface MockStep {
+  at: number;
+  send?: Record<string, unknown>;              // raw LiveServerMessage
+  inputText?: string;                          // serverContent.inputTranscription
+  outputText?: string;                         // serverContent.outputTranscription
+  tone?: { frequency: number; ms: number };    // synthetic translated audio
+  interrupted?: boolean;
+  turnComplete?: boolean;
+  goAway?: string;                             // timeLeft, e.g. "10s"
+  close?: { code: number; reason?: string };
+  terminate?: boolean;                         // drop without close frame
+}
+
+interface MockScript {
+  steps: MockStep[];
+  loop?: boolean;
+}
+
+const INPUT_RATE = 16000;
+const OUTPUT_RATE = 24000;
+const OUTPUT_CHUNK_MS = 100;
+const AUDIO_TOKENS_PER_SECOND = 25;
+
+function parseArgs(argv: string[]): MockOptions {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const [key, inline] = arg.slice(2).split('=');
+    const next = argv[i + 1];
+    if (inline !== undefined) {
+      args.set(key, inline);
+    } else if (next !== undefined && !next.startsWith('--')) {
+      args.set(key, next);
+      i++;
+    } else {
+      args.set(key, 'true');
+    }
+  }
+  const num = (key: string, fallback: number) => (args.has(key) ? Number(args.get(key)) : fallback);
+  const scriptPath = args.get('script');
+
+  return {
+    port: num('port', 8787),
+    script: scriptPath ? JSON.parse(readFileSync(scriptPath, 'utf8')) as MockScript : null,
+    delayMs: num('delay', 0),
+    jitterMs: num('jitter', 0),
+    turnSeconds: num('turn-seconds', 2),
+    dropAfterMs: num('drop-after', 0),
+    goAwayAfterMs: num('goaway-after', 0),
+    errorRate: num('error-rate', 0),
+    failConnects: num('fail-connects', 0),
+    rejectCode: num('reject', 0),
+  };
+}
+
+// Only the top-level shape is checked, the fields are read defensively
+function isClientMessage(value: unknown): value is LiveClientMessage {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function int16ToBase64(samples: Int16Array): string {
+  return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength).toString('base64');
+}
+
+function base64ToInt16(data: string): Int16Array {
+  const buf = Buffer.from(data, 'base64');
+  // Copy out of the shared Buffer pool, its offset may not be 2-byte aligned
+  const bytes = buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength - (buf.byteLength % 2));
+  return new Int16Array(bytes);
+}
+
+function makeTone(frequency: number, ms: number): Int16Array {
+  const length = Math.round((OUTPUT_RATE * ms) / 1000);
+  const out = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    // Short fade in/out to avoid clicks
+    const env = Math.min(1, i / 240, (length - i) / 240);
+    out[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / OUTPUT_RATE) * 0.3 * env * 0x7fff);
+  }
+  return out;
+}
+
+function upsampleToOutputRate(input: Int16Array): Int16Array {
+  const ratio = INPUT_RATE / OUTPUT_RATE;
+  const out = new Int16Array(Math.floor(input.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    out[i] = input[Math.min(input.length - 1, Math.floor(i * ratio))];
+  }
+  return out;
+}
+
+let connectionCount = 0;
+
+class MockSession {
+  private readonly id = ++connectionCount;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private lastSendAt = 0;
+  private setupDone = false;
+  private turnIndex = 0;
+  private handleIndex = 0;
+  private pending: Int16Array[] = [];
+  private pendingSamples = 0;
+
+  constructor(private ws: WebSocket, private options: MockOptions) {
+    ws.on('message', (data) => this.onMessage(data.toString()));
+    ws.on('close', (code) => {
+      this.log(`closed (${code})`);
+      this.timers.forEach(clearTimeout);
+    });
+  }
+
+  private log(...args: unknown[]) {
+    console.log(`[mock #${this.id}]`, ...args);
+  }
+
+  private onMessage(raw: string) {
+    if (this.options.errorRate > 0 && Math.random() < this.options.errorRate) {
+      this.log('injected error: terminating socket');
+      this.ws.terminate();
+      return;
+    }
+
+    let msg: unknown;
+    try {
+      msg = JSON.parse(raw);
+    } catch {
+      this.ws.close(1007, 'Invalid JSON payload');
+      return;
+    }
+    if (!isClientMessage(msg)) {
+      this.ws.close(1007, 'Not a client message');
+      return;
+    }
+
+    if (msg.setup) {
+      this.onSetup(msg.setup);
+    } else if (msg.realtimeInput) {
+      this.onRealtimeInput(msg.realtimeInput);
+    } else if (msg.clientContent) {
+      this.log('clientContent', JSON.stringify(msg.clientContent).slice(0, 120));
+    }
+  }
+
+  private onSetup(setup: LiveClientSetup) {
+    const resumed = setup.sessionResumption?.handle;
+    this.log(`setup model=${setup.model}${resumed ? ` resuming=${resumed}` : ''}`);
+
+    if (this.options.rejectCode) {
+      this.ws.close(this.options.rejectCode, 'Mock: setup rejected');
+      return;
+    }
+
+    this.setupDone = true;
+    this.send({ setupComplete: {} });
+
+    if (this.options.dropAfterMs) {
+      this.at(this.options.dropAfterMs, () => this.ws.close(1011, 'Mock: injected drop'));
+    }
+    if (this.options.goAwayAfterMs) {
+      this.at(this.options.goAwayAfterMs, () => this.send({ goAway: { timeLeft: '5s' } }));
+    }
+    if (this.options.script) {
+      this.runScript(this.options.script);
+    }
+  }
+
+  private onRealtimeInput(input: LiveClientRealtimeInput) {
+    if (!this.setupDone) {
+      this.ws.close(1008, 'Mock: realtimeInput before setup');
+      return;
+    }
+
+    const chunks: GenAIBlob[] = [
+      ...(input.mediaChunks ?? []),
+      ...(input.audio ? [input.audio] : []),
+    ];
+    for (const chunk of chunks) {
+      if (this.options.script || !chunk.data) continue;
+      const samples = base64ToInt16(chunk.data);
+      this.pending.push(samples);
+      this.pendingSamples += samples.length;
+    }
+
+    if (input.text && !this.options.script) {
+      this.answerText(input.text);
+    }
+
+    if (input.activityEnd || input.audioStreamEnd) {
+      this.flushEchoTurn();
+    } else if (!this.options.script && this.pendingSamples >= this.options.turnSeconds * INPUT_RATE) {
+      this.flushEchoTurn();
+    }
+  }
+
+  // Echo mode: answer the collected input with captions + the same audio
+  private flushEchoTurn() {
+    if (this.options.script || this.pendingSamples === 0) return;
+
+    const input = new Int16Array(this.pendingSamples);
+    let pos = 0;
+    for (const chunk of this.pending) {
+      input.set(chunk, pos);
+      pos += chunk.length;
+    }
+    this.pending = [];
+    this.pendingSamples = 0;
+
+    const n = ++this.turnIndex;
+    const seconds = input.length / INPUT_RATE;
+    this.send({ serverContent: { inputTranscription: { text: `(mock) heard ${seconds.toFixed(1)}s of speech. ` } } });
+    this.sendAudio(upsampleToOutputRate(input));
+    this.send({ serverContent: { outputTranscription: { text: `(mock) interpretation #${n}. ` } } });
+    this.send({ serverContent: { turnComplete: true } });
+    this.sendUsage(seconds, seconds);
+    this.sendResumptionHandle();
+  }
+
+  // Text input (e.g. voice preview): a short tone stands in for the spoken answer
+  private answerText(text: string) {
+    const n = ++this.turnIndex;
+    this.sendAudio(makeTone(440, 800));
+    this.send({ serverContent: { outputTranscription: { text: `(mock) reply #${n} to "${text}". ` } } });
+    this.send({ serverContent: { turnComplete: true } });
+    this.sendUsage(0, 0.8);
+  }
+
+  private runScript(script: MockScript) {
+    const duration = Math.max(0, ...script.steps.map(s => s.at)) + 1;
+    for (const step of script.steps) {
+      this.at(step.at, () => this.runStep(step));
+    }
+    if (script.loop) {
+      this.at(duration, () => this.runScript(script));
+    }
+  }
+
+  private runStep(step: MockStep) {
+    if (step.send) this.send(step.send);
+    if (step.inputText) this.send({ serverContent: { inputTranscription: { text: step.inputText } } });
+    if (step.tone) this.sendAudio(makeTone(step.tone.frequency, step.tone.ms));
+    if (step.outputText) this.send({ serverContent: { outputTranscription: { text: step.outputText } } });
+    if (step.interrupted) this.send({ serverContent: { interrupted: true } });
+    if (step.turnComplete) {
+      this.send({ serverContent: { turnComplete: true } });
+      this.sendResumptionHandle();
+    }
+    if (step.goAway) this.send({ goAway: { timeLeft: step.goAway } });
+    if (step.close) this.ws.close(step.close.code, step.close.reason ?? 'Mock: scripted close');
+    if (step.terminate) this.ws.terminate();
+  }
+
+  private sendAudio(samples: Int16Array) {
+    const chunkSize = (OUTPUT_RATE * OUTPUT_CHUNK_MS) / 1000;
+    for (let i = 0; i < samples.length; i += chunkSize) {
+      this.send({
+        serverContent: {
+          modelTurn: {
+            parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_RATE}`, data: int16ToBase64(samples.subarray(i, i + chunkSize)) } }],
+          },
+        },
+      });
+    }
+  }
+
+  private sendUsage(inputSeconds: number, outputSeconds: number) {
+    const prompt = Math.round(inputSeconds * AUDIO_TOKENS_PER_SECOND);
+    const response = Math.round(outputSeconds * AUDIO_TOKENS_PER_SECOND);
+    this.send({
+      usageMetadata: {
+        promptTokenCount: prompt,
+        responseTokenCount: response,
+        totalTokenCount: prompt + response,
+        promptTokensDetails: [{ modality: 'AUDIO', tokenCount: prompt }],
+        responseTokensDetails: [{ modality: 'AUDIO', tokenCount: response }],
+      },
+    });
+  }
+
+  private sendResumptionHandle() {
+    this.send({ sessionResumptionUpdate: { newHandle: `mock-${this.id}-${++this.handleIndex}`, resumable: true } });
+  }
+
+  // Delayed, order-preserving send
+  private send(message: Record<string, unknown>) {
+    const { delayMs, jitterMs } = this.options;
+    const now = Date.now();
+    const sendAt = Math.max(this.lastSendAt, now + delayMs + Math.random() * jitterMs);
+    this.lastSendAt = sendAt;
+    const payload = JSON.stringify(message);
+    const deliver = () => {
+      if (this.ws.readyState === WebSocket.OPEN) this.ws.send(payload);
+    };
+    if (sendAt <= now) {
+      deliver();
+    } else {
+      this.at(sendAt - now, deliver);
+    }
+  }
+
+  private at(ms: number, fn: () => void) {
+    this.timers.push(setTimeout(fn, ms));
+  }
+}
+
+const options = parseArgs(process.argv.slice(2));
+let rejectedConnects = 0;
+
+const wss = new WebSocketServer({ port: options.port });
+wss.on('connection', (ws, req) => {
+  if (rejectedConnects < options.failConnects) {
+    rejectedConnects++;
+    console.log(`[mock] rejecting connection ${rejectedConnects}/${options.failConnects}`);
+    ws.close(1013, 'Mock: try again later');
+    return;
+  }
+  console.log(`[mock] connection ${req.url?.split('?')[0]}`);
+  new MockSession(ws, options);
+});
+
+console.log(`[mock] Gemini Live stand-in listening on ws://localhost:${options.port}${options.script ? ' (scripted)' : ' (echo mode)'}`);
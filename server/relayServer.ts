@@ -0,0 +1,121 @@
+// LAN relay for listeners.
+//
+// The interpreter page publishes its decoded output audio and captions per
+// language; phones open listener.html and subscribe to one language:
+//
+//   npm run relay-server -- --port 8790 --publish-token <secret>
+//
+// Publishing needs the token (a random one is printed without the flag), so
+// nobody else on the LAN can feed a channel. Every frame is checked against
+// the protocol; no buffering or transcoding, frames are forwarded as they arrive.
+import { randomBytes } from 'crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import { getLanguage } from '../services/languageRegistry';
+import { RELAY_DEFAULT_PORT, RelayMessage } from '../services/relayProtocol';
+
+// Largest frame accepted from anyone; output chunks are a second or two of
+// 24 kHz PCM16 as base64, well under this
+const MAX_FRAME_BYTES = 1024 * 1024;
+
+function option(argv: string[], name: string): string | undefined {
+  const i = argv.indexOf(`--${name}`);
+  const inline = argv.find(a => a.startsWith(`--${name}=`));
+  return inline ? inline.slice(name.length + 3) : i >= 0 ? argv[i + 1] : undefined;
+}
+
+// Only what a publisher may send, rebuilt so nothing else passes through
+function parseFrame(payload: string): RelayMessage | null {
+  let frame: unknown;
+  try {
+    frame = JSON.parse(payload);
+  } catch {
+    return null;
+  }
+  if (typeof frame !== 'object' || frame === null) return null;
+  const f = frame as Record<string, unknown>;
+  if (f.type === 'audio' && typeof f.data === 'string' && typeof f.sampleRate === 'number' && f.sampleRate > 0) {
+    return { type: 'audio', data: f.data, sampleRate: f.sampleRate };
+  }
+  if (f.type === 'caption' && typeof f.id === 'number' && typeof f.text === 'string' && typeof f.final === 'boolean') {
+    return { type: 'caption', id: f.id, text: f.text, final: f.final };
+  }
+  return null;
+}
+
+const publishers = new Map<string, Set<WebSocket>>();
+const listeners = new Map<string, Set<WebSocket>>();
+
+function join(map: Map<string, Set<WebSocket>>, language: string, ws: WebSocket) {
+  if (!map.has(language)) map.set(language, new Set());
+  map.get(language)!.add(ws);
+}
+
+function leave(map: Map<string, Set<WebSocket>>, language: string, ws: WebSocket) {
+  const set = map.get(language);
+  set?.delete(ws);
+  if (set?.size === 0) map.delete(language);
+}
+
+function channelsMessage(): string {
+  const message: RelayMessage = { type: 'channels', languages: Array.from(publishers.keys()).sort() };
+  return JSON.stringify(message);
+}
+
+// Every listener gets the language list, whatever it is subscribed to
+function announceChannels() {
+  const payload = channelsMessage();
+  listeners.forEach(set => set.forEach(ws => ws.readyState === WebSocket.OPEN && ws.send(payload)));
+}
+
+const argv = process.argv.slice(2);
+const port = Number(option(argv, 'port') ?? RELAY_DEFAULT_PORT);
+const publishToken = option(argv, 'publish-token') || randomBytes(6).toString('hex');
+const wss = new WebSocketServer({ port, maxPayload: MAX_FRAME_BYTES });
+
+wss.on('connection', (ws, req) => {
+  const url = new URL(req.url ?? '/', 'http://relay');
+  const language = url.searchParams.get('lang') ?? '';
+
+  if (url.pathname === '/publish') {
+    if (url.searchParams.get('token') !== publishToken) {
+      ws.close(1008, 'Wrong publish token');
+      return;
+    }
+    // Channels are the app's languages only
+    if (!getLanguage(language)) {
+      ws.close(1008, 'Unknown language');
+      return;
+    }
+    console.log(`[relay] publisher joined: ${language}`);
+    join(publishers, language, ws);
+    announceChannels();
+    ws.on('message', (data) => {
+      const message = parseFrame(data.toString());
+      if (!message) return;
+      const payload = JSON.stringify(message);
+      listeners.get(language)?.forEach(l => l.readyState === WebSocket.OPEN && l.send(payload));
+    });
+    ws.on('close', () => {
+      console.log(`[relay] publisher left: ${language}`);
+      leave(publishers, language, ws);
+      announceChannels();
+    });
+    return;
+  }
+
+  if (url.pathname === '/listen') {
+    // No language yet: only receives the channel list
+    const channel = language || '';
+    join(listeners, channel, ws);
+    const count = Array.from(listeners.values()).reduce((n, set) => n + set.size, 0);
+    console.log(`[relay] listener joined${language ? `: ${language}` : ''} (${count} connected)`);
+    ws.send(channelsMessage());
+    ws.on('close', () => leave(listeners, channel, ws));
+    return;
+  }
+
+  ws.close(1008, 'Use /publish?lang=xx&token=... or /listen?lang=xx');
+});
+
+console.log(`[relay] listening on ws://0.0.0.0:${port} (open /listener.html on the dev server to listen)`);
+console.log(`[relay] publish token: ${publishToken} (enter it under Listener Relay in the app)`);
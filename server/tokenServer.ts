@@ -0,0 +1,151 @@
+// Local token service for the browser app.
+//
+// Holds GEMINI_API_KEY (from the environment or .env.local) and hands out
+// short-lived, single-use Live API tokens locked to the interpreter's model,
+// so the key never has to be compiled into the page:
+//
+//   npm run token-server -- --port 8791 --session-minutes 30
+//
+// The Vite dev server proxies /api/token here; in production put it behind
+// the same origin as the app. Anyone who can reach /api/token can spend the
+// key: it listens on 127.0.0.1 only, refuses other browser origins, and must
+// not be exposed beyond the machines that run the app (note that `npm run
+// dev` serves the proxy on every interface).
+import { existsSync } from 'fs';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { GoogleGenAI } from '@google/genai';
+import { IssuedToken } from '../services/credentials';
+import { LIVE_MODEL } from '../services/transport';
+
+interface TokenServerOptions {
+  port: number;
+  host: string;
+  uses: number;              // sessions per token (resumption doesn't count)
+  sessionMinutes: number;    // a session using the token ends after this
+  newSessionSeconds: number; // the token must be used within this
+  maxPerMinute: number;      // per client address
+  allowOrigin: string | null; // CORS, only needed without the proxy; the only other origin served
+}
+
+function parseArgs(argv: string[]): TokenServerOptions {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const [key, inline] = arg.slice(2).split('=');
+    const next = argv[i + 1];
+    if (inline !== undefined) {
+      args.set(key, inline);
+    } else if (next !== undefined && !next.startsWith('--')) {
+      args.set(key, next);
+      i++;
+    } else {
+      args.set(key, 'true');
+    }
+  }
+  const num = (key: string, fallback: number) => (args.has(key) ? Number(args.get(key)) : fallback);
+
+  return {
+    port: num('port', 8791),
+    host: args.get('host') ?? '127.0.0.1',
+    uses: num('uses', 1),
+    sessionMinutes: num('session-minutes', 30),
+    newSessionSeconds: num('new-session-seconds', 120),
+    maxPerMinute: num('max-per-minute', 30),
+    allowOrigin: args.get('allow-origin') ?? null,
+  };
+}
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+if (!apiKey) {
+  console.error('[token] GEMINI_API_KEY is not set (environment or .env.local)');
+  process.exit(1);
+}
+
+const options = parseArgs(process.argv.slice(2));
+const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+const recent = new Map<string, number[]>(); // address -> issue times
+
+// Forget addresses that haven't asked for a minute
+setInterval(() => {
+  const cutoff = Date.now() - 60_000;
+  for (const [address, times] of recent) {
+    if (times[times.length - 1] <= cutoff) recent.delete(address);
+  }
+}, 60_000).unref();
+
+function rateLimited(address: string): boolean {
+  const now = Date.now();
+  const times = (recent.get(address) ?? []).filter(t => t > now - 60_000);
+  times.push(now);
+  recent.set(address, times);
+  return times.length > options.maxPerMinute;
+}
+
+// Browsers send Origin with a POST: only the app's own origin (the same host,
+// e.g. through the Vite proxy) or --allow-origin gets tokens. Requests
+// without one don't come from a page.
+function originAllowed(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin || origin === options.allowOrigin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+async function issueToken(): Promise<IssuedToken> {
+  const now = Date.now();
+  const expiresAt = new Date(now + options.sessionMinutes * 60_000).toISOString();
+  const newSessionExpiresAt = new Date(now + options.newSessionSeconds * 1000).toISOString();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: options.uses,
+      expireTime: expiresAt,
+      newSessionExpireTime: newSessionExpiresAt,
+      // Language, voice and prompt stay up to the page, the model doesn't
+      liveConnectConstraints: { model: LIVE_MODEL },
+    },
+  });
+  if (!token.name) throw new Error('No token in the response');
+  return { token: token.name, expiresAt, newSessionExpiresAt };
+}
+
+function send(res: ServerResponse, status: number, body: string, type = 'application/json') {
+  res.writeHead(status, {
+    'Content-Type': type,
+    'Cache-Control': 'no-store',
+    ...(options.allowOrigin ? { 'Access-Control-Allow-Origin': options.allowOrigin } : {}),
+  });
+  res.end(body);
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const path = (req.url ?? '').split('?')[0];
+  if (req.method === 'OPTIONS' && options.allowOrigin) {
+    res.writeHead(204, { 'Access-Control-Allow-Origin': options.allowOrigin, 'Access-Control-Allow-Methods': 'POST' });
+    res.end();
+    return;
+  }
+  if (path !== '/api/token') return send(res, 404, 'Not found', 'text/plain');
+  if (req.method !== 'POST') return send(res, 405, 'Use POST', 'text/plain');
+  if (!originAllowed(req)) return send(res, 403, 'Origin not allowed', 'text/plain');
+
+  const address = req.socket.remoteAddress ?? 'unknown';
+  if (rateLimited(address)) return send(res, 429, 'Too many token requests', 'text/plain');
+
+  try {
+    const token = await issueToken();
+    console.log(`[token] issued to ${address}, valid until ${token.expiresAt}`);
+    send(res, 200, JSON.stringify(token));
+  } catch (e) {
+    console.error('[token] failed to issue token', e);
+    send(res, 502, e instanceof Error ? e.message : String(e), 'text/plain');
+  }
+}
+
+createServer((req, res) => { handle(req, res); }).listen(options.port, options.host, () => {
+  console.log(`[token] listening on http://${options.host}:${options.port}/api/token (model ${LIVE_MODEL}, ${options.uses} use(s), ${options.sessionMinutes} min)`);
+});
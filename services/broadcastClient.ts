@@ -0,0 +1,158 @@
+import { BroadcastTarget, Glossary, InputProcessing, InputSource, RelayConfig, SessionError, SessionState, VoiceSettings } from '../types';
+import { CredentialsError } from './credentials';
+import { InputFeed } from './inputFeed';
+import { LiveClient } from './liveClient';
+import { RelayPublisher } from './relayPublisher';
+import { connectionError, inputError } from './sessionState';
+import { METER_FFT_SIZE, meterLevel } from './signalAnalysis';
+import { LiveTransport } from './transport';
+
+export interface BroadcastConfig {
+  input: InputSource;
+  inputProcessing?: InputProcessing;
+  source: string; // spoken language code (or 'auto')
+  targets: BroadcastTarget[];
+  voiceFor?: (languageCode: string) => VoiceSettings;
+  glossaryFor?: (target: string) => Glossary | undefined;
+  // Game-loop style like LiveClient: 'input' once, every target by id
+  onVolumeChange: (id: 'input' | string, volume: number) => void;
+  onStateChange?: (id: string, state: SessionState) => void;
+  onError?: (id: string, error: SessionError) => void;
+  // Every target failed after start: the broadcast has stopped (with the last error)
+  onFailed?: (error: SessionError) => void;
+  relay?: RelayConfig; // every target becomes a listener channel
+}
+
+// Broadcast couldn't start: the shared input failed, or every session did
+export class BroadcastStartError extends Error {
+  constructor(readonly error: SessionError) {
+    super(error.message);
+    this.name = 'BroadcastStartError';
+  }
+}
+
+// One speaker, several audiences: the input is captured and encoded once and
+// fanned out to one LiveClient (session + output device) per target language.
+export class BroadcastClient {
+  private feed: InputFeed | null = null;
+  private clients = new Map<string, LiveClient>();
+  private publishers: RelayPublisher[] = [];
+  private muted = new Set<string>();
+  private solo: string | null = null;
+  private failures = new Map<string, SessionError>();
+  private onFailed: ((error: SessionError) => void) | null = null;
+  private meterFrame: number | null = null;
+
+  constructor(private transport?: LiveTransport) {}
+
+  async start(config: BroadcastConfig) {
+    const feed = new InputFeed();
+    try {
+      await feed.start(config.input, config.inputProcessing);
+    } catch (e) {
+      throw new BroadcastStartError(inputError(e, config.input.kind));
+    }
+    this.feed = feed;
+    this.startInputMeter(config.onVolumeChange);
+
+    // Sessions connect in parallel; one failing target doesn't stop the others
+    const results = await Promise.allSettled(config.targets.map(async (target) => {
+      const client = new LiveClient(this.transport);
+      this.clients.set(target.id, client);
+      client.on('state', state => config.onStateChange?.(target.id, state));
+      client.on('error', error => {
+        config.onError?.(target.id, error);
+        this.targetFailed(target.id, error);
+      });
+      client.setOutputMuted(this.isSilenced(target.id));
+      const relay = config.relay?.enabled ? new RelayPublisher(config.relay.url, target.language, config.relay.token) : null;
+      if (relay) this.publishers.push(relay);
+      await client.connect({
+        speakerDeviceId: target.speakerDeviceId,
+        pair: { source: config.source, target: target.language, twoWay: false },
+        voice: config.voiceFor?.(target.language),
+        glossary: config.glossaryFor?.(target.language),
+        // The shared input is metered once, see startInputMeter()
+        onVolumeChange: (type, volume) => {
+          if (type === 'output') config.onVolumeChange(target.id, volume);
+        },
+        onOutputAudio: relay ? (data) => relay.sendAudio(data, 24000) : undefined,
+        onTranscript: relay ? (turns) => relay.sendCaptions(turns) : undefined,
+      }, feed);
+    }));
+
+    // Sessions mostly fail after connect() returned, through their error
+    // events; both count, and once every target failed the broadcast is over
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') return;
+      const reason = result.reason;
+      this.failures.set(config.targets[i].id, reason instanceof CredentialsError
+        ? reason.error
+        : connectionError(reason instanceof Error ? reason.message : String(reason)));
+    });
+    if (this.failures.size === this.clients.size) {
+      const error = this.failures.values().next().value!;
+      await this.stop();
+      throw new BroadcastStartError(error);
+    }
+    this.onFailed = config.onFailed ?? null;
+  }
+
+  setMuted(id: string, muted: boolean) {
+    if (muted) this.muted.add(id);
+    else this.muted.delete(id);
+    this.applyOutputMutes();
+  }
+
+  // Only the soloed target is heard; null hears all (that aren't muted)
+  setSolo(id: string | null) {
+    this.solo = id;
+    this.applyOutputMutes();
+  }
+
+  // Gain and low cut of the shared input, live
+  updateInputProcessing(processing: InputProcessing) {
+    this.feed?.updateProcessing(processing);
+  }
+
+  async stop() {
+    this.onFailed = null;
+    this.failures.clear();
+    if (this.meterFrame !== null) cancelAnimationFrame(this.meterFrame);
+    this.meterFrame = null;
+    // Clients aren't reused, so their decoder workers go with them
+    await Promise.all(Array.from(this.clients.values()).map(c => c.dispose()));
+    this.clients.clear();
+    this.publishers.forEach(p => p.close());
+    this.publishers = [];
+    await this.feed?.stop();
+    this.feed = null;
+  }
+
+  private targetFailed(id: string, error: SessionError) {
+    this.failures.set(id, error);
+    const onFailed = this.onFailed;
+    if (!onFailed || this.failures.size < this.clients.size) return;
+    this.stop().then(() => onFailed(error));
+  }
+
+  // One meter for the shared input, whichever targets are still up
+  private startInputMeter(onVolumeChange: BroadcastConfig['onVolumeChange']) {
+    const buffer = new Uint8Array(METER_FFT_SIZE);
+    const update = () => {
+      const analyser = this.feed?.analyser;
+      if (!analyser) return;
+      onVolumeChange('input', meterLevel(analyser, buffer));
+      this.meterFrame = requestAnimationFrame(update);
+    };
+    update();
+  }
+
+  private isSilenced(id: string): boolean {
+    return this.muted.has(id) || (this.solo !== null && this.solo !== id);
+  }
+
+  private applyOutputMutes() {
+    this.clients.forEach((client, id) => client.setOutputMuted(this.isSilenced(id)));
+  }
+}
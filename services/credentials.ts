@@ -0,0 +1,127 @@
+import { SessionError } from '../types';
+
+// Where the browser gets its Live API credential from. By default a
+// short-lived token minted by server/tokenServer.ts (the real key stays on
+// the server); a key the user enters at runtime takes precedence.
+
+const USER_KEY_STORAGE = 'gli.apiKey';
+// Don't start a session with a token this close to its new-session deadline
+const TOKEN_EXPIRY_MARGIN_MS = 15000;
+
+export const DEFAULT_TOKEN_ENDPOINT = '/api/token';
+
+// What server/tokenServer.ts answers
+export interface IssuedToken {
+  token: string;               // 'auth_tokens/…', used in place of the API key
+  expiresAt: string;           // ISO; the session is closed after this
+  newSessionExpiresAt: string; // ISO; must connect before this
+}
+
+// Carries the user-facing explanation; `retryable` failures go through the
+// normal reconnect path, the others end the session
+export class CredentialsError extends Error {
+  constructor(readonly error: SessionError, readonly retryable: boolean) {
+    super(error.message);
+    this.name = 'CredentialsError';
+  }
+}
+
+export interface CredentialProvider {
+  getKey(): Promise<string>; // API key or ephemeral token name
+  prefetch?(): void;         // warm up ahead of a (re)connect
+}
+
+// Single-use tokens from the token service, fetched one ahead
+export class EphemeralTokenProvider implements CredentialProvider {
+  private next: Promise<IssuedToken> | null = null;
+
+  constructor(private endpoint: string = DEFAULT_TOKEN_ENDPOINT) {}
+
+  prefetch() {
+    if (this.next) return;
+    const pending = this.fetchToken();
+    pending.catch(() => {
+      if (this.next === pending) this.next = null;
+    });
+    this.next = pending;
+  }
+
+  async getKey(): Promise<string> {
+    const pending = this.next;
+    this.next = null;
+    let token = pending ? await pending.catch(() => null) : null;
+    if (!token || Date.parse(token.newSessionExpiresAt) - Date.now() < TOKEN_EXPIRY_MARGIN_MS) {
+      token = await this.fetchToken();
+    }
+    return token.token;
+  }
+
+  private async fetchToken(): Promise<IssuedToken> {
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, { method: 'POST' });
+    } catch (e) {
+      throw new CredentialsError({
+        kind: 'network',
+        message: `Could not reach the token service at ${this.endpoint}. Start it with "npm run token-server" or enter your own API key.`,
+        detail: e instanceof Error ? e.message : String(e),
+      }, true);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new CredentialsError({
+        kind: response.status === 429 ? 'quota' : 'auth',
+        message: response.status === 429
+          ? 'The token service is rate limiting requests. Wait a moment and start again.'
+          : 'The token service could not issue an access token. Check its GEMINI_API_KEY, or enter your own API key.',
+        detail: `${response.status} ${detail}`.trim(),
+      }, response.status >= 500);
+    }
+    return response.json();
+  }
+}
+
+// Runtime "bring your own key": remembered for the tab, or on this device
+export function getUserApiKey(): string | null {
+  try {
+    return sessionStorage.getItem(USER_KEY_STORAGE) ?? localStorage.getItem(USER_KEY_STORAGE);
+  } catch (e) {
+    console.warn('Failed to read API key', e);
+    return null;
+  }
+}
+
+export function setUserApiKey(key: string, remember: boolean) {
+  try {
+    clearUserApiKey();
+    (remember ? localStorage : sessionStorage).setItem(USER_KEY_STORAGE, key);
+  } catch (e) {
+    console.warn('Failed to store API key', e);
+  }
+}
+
+export function clearUserApiKey() {
+  try {
+    sessionStorage.removeItem(USER_KEY_STORAGE);
+    localStorage.removeItem(USER_KEY_STORAGE);
+  } catch (e) {
+    console.warn('Failed to clear API key', e);
+  }
+}
+
+// The user's own key if they entered one, otherwise the token service
+export class BrowserCredentials implements CredentialProvider {
+  private tokens: EphemeralTokenProvider;
+
+  constructor(endpoint: string = DEFAULT_TOKEN_ENDPOINT) {
+    this.tokens = new EphemeralTokenProvider(endpoint);
+  }
+
+  prefetch() {
+    if (!getUserApiKey()) this.tokens.prefetch();
+  }
+
+  async getKey(): Promise<string> {
+    return getUserApiKey() ?? this.tokens.getKey();
+  }
+}
@@ -0,0 +1,97 @@
+import { Glossary, GlossaryEntry, LanguagePair } from '../types';
+import { parseDelimited, toDelimited } from '../utils/csv';
+import { resolveLanguageCode } from './languageRegistry';
+
+const STORAGE_KEY = 'gli.glossaries';
+const ACTIVE_KEY = 'gli.activeGlossary';
+
+// Header words we skip when they appear in the first row of an import
+const HEADER_WORDS = ['source', 'term', 'quelle', 'begriff'];
+// Marker in the target column for "keep this term as is"
+const KEEP_MARKERS = ['=', '!', 'dnt', 'keep'];
+
+export function loadGlossaries(): Glossary[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const glossaries = raw ? (JSON.parse(raw) as Glossary[]) : [];
+    // Older glossaries stored language names instead of codes
+    return glossaries.map(g => ({ ...g, source: resolveLanguageCode(g.source), target: resolveLanguageCode(g.target) }));
+  } catch (e) {
+    console.warn('Failed to load glossaries', e);
+    return [];
+  }
+}
+
+export function saveGlossaries(glossaries: Glossary[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(glossaries));
+  } catch (e) {
+    console.warn('Failed to save glossaries', e);
+  }
+}
+
+export function loadActiveGlossaryId(): string {
+  try {
+    return localStorage.getItem(ACTIVE_KEY) ?? '';
+  } catch (e) {
+    console.warn('Failed to load the active glossary', e);
+    return '';
+  }
+}
+
+export function saveActiveGlossaryId(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } catch (e) {
+    console.warn('Failed to save the active glossary', e);
+  }
+}
+
+export function createGlossary(name: string, pair: LanguagePair): Glossary {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    name,
+    source: pair.source,
+    target: pair.target,
+    entries: [],
+    doNotTranslate: [],
+  };
+}
+
+// A glossary applies to its own pair, and in conversation mode also to the reverse
+export function glossaryMatchesPair(glossary: Glossary, pair: LanguagePair): boolean {
+  if (glossary.source === pair.source && glossary.target === pair.target) return true;
+  return pair.twoWay && glossary.source === pair.target && glossary.target === pair.source;
+}
+
+// Imports `source,target[,note]` rows. An empty target (or a keep marker such
+// as "=") puts the term on the do-not-translate list instead.
+export function parseGlossaryCsv(text: string): Pick<Glossary, 'entries' | 'doNotTranslate'> {
+  const rows = parseDelimited(text).filter(r => !r[0]?.trim().startsWith('#'));
+  if (rows.length > 0 && HEADER_WORDS.includes(rows[0][0]?.trim().toLowerCase())) {
+    rows.shift();
+  }
+
+  const entries: GlossaryEntry[] = [];
+  const doNotTranslate: string[] = [];
+  for (const [source = '', target = '', note = ''] of rows) {
+    const term = source.trim();
+    const translation = target.trim();
+    if (!term) continue;
+    if (!translation || translation === term || KEEP_MARKERS.includes(translation.toLowerCase())) {
+      doNotTranslate.push(term);
+    } else {
+      entries.push({ source: term, target: translation, ...(note.trim() ? { note: note.trim() } : {}) });
+    }
+  }
+  return { entries, doNotTranslate };
+}
+
+export function glossaryToCsv(glossary: Glossary): string {
+  const rows = [
+    ['source', 'target', 'note'],
+    ...glossary.entries.map(e => [e.source, e.target, e.note ?? '']),
+    ...glossary.doNotTranslate.map(term => [term, '=', '']),
+  ];
+  return toDelimited(rows);
+}
@@ -0,0 +1,269 @@
+import { Blob as GenAIBlob } from '@google/genai';
+import { InputProcessing, InputSource } from '../types';
+import { pcmToGeminiBlob } from '../utils/audioUtils';
+import { AcquiredInput, acquireInput } from './inputSources';
+import { METER_FFT_SIZE } from './signalAnalysis';
+
+export const INPUT_SAMPLE_RATE = 16000;
+
+// Samples per chunk at INPUT_SAMPLE_RATE (~128 ms)
+const CHUNK_SIZE = 2048;
+
+export const DEFAULT_INPUT_PROCESSING: InputProcessing = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  gainDb: 0,
+  highPassHz: 0,
+};
+
+// 1. INPUT WORKLET: Handles Microphone Stream (Audio Thread)
+// The context runs at the device's own rate; the worklet converts to the
+// target rate with a windowed-sinc interpolator whose cutoff sits below the
+// lower of the two Nyquist frequencies (anti-aliasing when downsampling).
+const inputWorkletCode = `
+// Kernel half-width in zero crossings, and table steps per input sample
+const ZERO_CROSSINGS = 8;
+const TABLE_STEPS = 256;
+// Cutoff as a fraction of the lower Nyquist, leaves room for the transition band
+const CUTOFF = 0.92;
+
+class RecorderProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, bufferSize } = options.processorOptions;
+    this.bufferSize = bufferSize;
+    this.buffer = new Float32Array(this.bufferSize);
+    this.index = 0;
+
+    this.step = sampleRate / targetRate; // input samples per output sample
+    this.passthrough = sampleRate === targetRate;
+    // Normalised cutoff (1 = input Nyquist) and kernel half-width in input samples
+    this.cutoff = Math.min(1, 1 / this.step) * CUTOFF;
+    this.halfWidth = Math.ceil(ZERO_CROSSINGS / this.cutoff);
+    this.kernel = new Float32Array(this.halfWidth * TABLE_STEPS + 2);
+    for (let i = 0; i < this.kernel.length; i++) {
+      const d = i / TABLE_STEPS;
+      const x = Math.PI * this.cutoff * d;
+      const sinc = d === 0 ? 1 : Math.sin(x) / x;
+      const w = Math.min(1, d / this.halfWidth);
+      // Blackman window
+      const window = 0.42 + 0.5 * Math.cos(Math.PI * w) + 0.08 * Math.cos(2 * Math.PI * w);
+      this.kernel[i] = this.cutoff * sinc * window;
+    }
+    // Input not yet consumed; history[0] is input sample number this.offset
+    this.history = new Float32Array(4096);
+    this.length = 0;
+    // Position of the next output sample, in input samples from history[0]
+    this.position = this.halfWidth;
+  }
+
+  weight(distance) {
+    const t = Math.abs(distance) * TABLE_STEPS;
+    const i = Math.floor(t);
+    if (i >= this.kernel.length - 1) return 0;
+    const frac = t - i;
+    return this.kernel[i] + (this.kernel[i + 1] - this.kernel[i]) * frac;
+  }
+
+  emit(sample) {
+    this.buffer[this.index++] = sample;
+    if (this.index >= this.bufferSize) {
+      this.port.postMessage(this.buffer);
+      this.index = 0;
+    }
+  }
+
+  append(channel) {
+    if (this.length + channel.length > this.history.length) {
+      const grown = new Float32Array((this.length + channel.length) * 2);
+      grown.set(this.history.subarray(0, this.length));
+      this.history = grown;
+    }
+    this.history.set(channel, this.length);
+    this.length += channel.length;
+  }
+
+  resample() {
+    const h = this.history;
+    while (this.position + this.halfWidth < this.length) {
+      const center = Math.floor(this.position);
+      let sum = 0;
+      for (let j = center - this.halfWidth + 1; j <= center + this.halfWidth; j++) {
+        sum += h[j] * this.weight(this.position - j);
+      }
+      this.emit(sum);
+      this.position += this.step;
+    }
+    // Drop what no future output sample reaches
+    const keepFrom = Math.floor(this.position) - this.halfWidth + 1;
+    if (keepFrom > 0) {
+      h.copyWithin(0, keepFrom, this.length);
+      this.length -= keepFrom;
+      this.position -= keepFrom;
+    }
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    if (input && input.length > 0) {
+      const channel = input[0];
+      if (this.passthrough) {
+        for (let i = 0; i < channel.length; i++) this.emit(channel[i]);
+      } else {
+        this.append(channel);
+        this.resample();
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('recorder-processor', RecorderProcessor);
+`;
+
+// One worklet buffer, encoded for the Live API once no matter how many
+// sessions it is sent to
+export interface InputChunk {
+  data: Float32Array;
+  blob: GenAIBlob;
+}
+
+interface Subscriber {
+  onChunk: (chunk: InputChunk) => void;
+  onEnded?: () => void; // the source ran out (file finished, sharing stopped)
+}
+
+// Captures one input source (mic, tab audio, file) and hands its 16 kHz
+// buffers to any number of subscribers. A LiveClient owns one by default;
+// a broadcast shares one between several clients.
+//
+// source -> low cut -> gain -> analyser (meters)
+//                          \-> worklet (resample to 16 kHz) -> subscribers
+export class InputFeed {
+  private context: AudioContext | null = null;
+  private input: AcquiredInput | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  private lowCut: BiquadFilterNode | null = null;
+  private gain: GainNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private subscribers = new Set<Subscriber>();
+  private playing = false;
+
+  analyser: AnalyserNode | null = null; // input meter tap
+
+  get stream(): MediaStream | null {
+    return this.input?.stream ?? null;
+  }
+
+  get isRunning(): boolean {
+    return !!this.workletNode;
+  }
+
+  async start(source: InputSource, processing: InputProcessing = DEFAULT_INPUT_PROCESSING) {
+    // Native rate: forcing 16 kHz fails on some devices or resamples badly
+    const AudioContext = window.AudioContext || window.webkitAudioContext;
+    this.context = new AudioContext();
+
+    // Load Input AudioWorklet
+    try {
+      const blob = new Blob([inputWorkletCode], { type: "application/javascript" });
+      const workletUrl = URL.createObjectURL(blob);
+      await this.context.audioWorklet.addModule(workletUrl);
+      const input = await acquireInput(source, this.context, processing, () => {
+        this.subscribers.forEach(s => s.onEnded?.());
+      });
+      // Safety check: stop() might have been called while awaiting the source
+      if (!this.context) {
+        input.dispose();
+        return;
+      }
+      this.input = input;
+    } catch (e) {
+      console.error("Failed to start input", e);
+      await this.stop();
+      throw e;
+    }
+
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = METER_FFT_SIZE;
+    this.analyser.smoothingTimeConstant = 0.5;
+    this.sourceNode = this.context.createMediaStreamSource(this.input.stream);
+    this.lowCut = this.context.createBiquadFilter();
+    this.lowCut.Q.value = Math.SQRT1_2;
+    this.gain = this.context.createGain();
+    this.updateProcessing(processing);
+    this.sourceNode.connect(this.lowCut);
+    this.lowCut.connect(this.gain);
+
+    // Connect Analysis (Main Thread): meters show what is sent
+    this.gain.connect(this.analyser);
+
+    // Connect Processing (Audio Thread)
+    this.workletNode = new AudioWorkletNode(this.context, 'recorder-processor', {
+      processorOptions: { targetRate: INPUT_SAMPLE_RATE, bufferSize: CHUNK_SIZE },
+    });
+    this.workletNode.port.onmessage = (event) => {
+      const data = event.data as Float32Array;
+      if (this.subscribers.size === 0) return;
+      const chunk = { data, blob: pcmToGeminiBlob(data, INPUT_SAMPLE_RATE) };
+      this.subscribers.forEach(s => s.onChunk(chunk));
+    };
+    this.gain.connect(this.workletNode);
+    this.workletNode.connect(this.context.destination);
+  }
+
+  // Gain and low cut follow immediately; the browser flags were fixed when the
+  // input was opened
+  updateProcessing(processing: InputProcessing) {
+    if (!this.context || !this.lowCut || !this.gain) return;
+    const now = this.context.currentTime;
+    // All-pass keeps the node in the chain with a flat response
+    this.lowCut.type = processing.highPassHz > 0 ? 'highpass' : 'allpass';
+    if (processing.highPassHz > 0) this.lowCut.frequency.setValueAtTime(processing.highPassHz, now);
+    this.gain.gain.setTargetAtTime(10 ** (processing.gainDb / 20), now, 0.02);
+  }
+
+  // Files start playing once the first session is there to hear them
+  play() {
+    if (this.playing || !this.input) return;
+    this.playing = true;
+    this.input.start();
+  }
+
+  subscribe(onChunk: Subscriber['onChunk'], onEnded?: Subscriber['onEnded']): () => void {
+    const subscriber = { onChunk, onEnded };
+    this.subscribers.add(subscriber);
+    return () => this.subscribers.delete(subscriber);
+  }
+
+  async stop() {
+    this.subscribers.clear();
+    this.playing = false;
+
+    if (this.workletNode) {
+      this.workletNode.disconnect();
+      this.workletNode = null;
+    }
+
+    if (this.sourceNode) {
+      this.sourceNode.disconnect();
+      this.sourceNode = null;
+    }
+    this.lowCut?.disconnect();
+    this.lowCut = null;
+    this.gain?.disconnect();
+    this.gain = null;
+    this.analyser = null;
+
+    if (this.input) {
+      this.input.dispose();
+      this.input = null;
+    }
+
+    if (this.context) {
+      const context = this.context;
+      this.context = null;
+      await context.close();
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { InputProcessing, InputSource } from '../types';
+
+// Pseudo device ids for the Input Source selector, next to the microphones
+export const DISPLAY_INPUT_ID = 'display';
+export const FILE_INPUT_ID = 'file';
+
+// A stream that feeds the recorder worklet, whatever it comes from
+export interface AcquiredInput {
+  stream: MediaStream;
+  start(): void;   // begin playback (files); capture sources are already running
+  dispose(): void; // stop tracks, release the file
+}
+
+// Browser processing is up to the user for a mic in the room (echo
+// cancellation is critical for simultaneous use, but can color a booth mic);
+// tab audio and files are clean already and echo cancellation would eat the
+// speaker. No sample rate is asked for: the device runs at its own rate and
+// the input worklet resamples.
+const micConstraints = (processing: InputProcessing): MediaTrackConstraints => ({
+  channelCount: 1,
+  echoCancellation: processing.echoCancellation,
+  autoGainControl: processing.autoGainControl,
+  noiseSuppression: processing.noiseSuppression,
+});
+
+const CLEAN_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: false,
+  autoGainControl: false,
+  noiseSuppression: false,
+};
+
+export function describeInputSource(source: InputSource): string {
+  if (source.kind === 'display') return 'Tab / screen audio';
+  if (source.kind === 'file') return source.file.name;
+  return 'Microphone';
+}
+
+// `onEnded` fires when the source runs out on its own: the file finished or
+// the user stopped sharing the tab.
+export async function acquireInput(source: InputSource, context: AudioContext, processing: InputProcessing, onEnded: () => void): Promise<AcquiredInput> {
+  if (source.kind === 'display') {
+    // Chrome only offers audio together with video; the video track is ignored
+    const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: CLEAN_CONSTRAINTS });
+    const audioTrack = stream.getAudioTracks()[0];
+    if (!audioTrack) {
+      stream.getTracks().forEach(t => t.stop());
+      throw new Error('No audio was shared. Pick a tab and enable "Share tab audio".');
+    }
+    audioTrack.addEventListener('ended', onEnded);
+    return {
+      stream: new MediaStream([audioTrack]),
+      start: () => {},
+      dispose: () => stream.getTracks().forEach(t => t.stop()),
+    };
+  }
+
+  if (source.kind === 'file') {
+    // The element plays into the graph only; the mix stage decides what is heard
+    const url = URL.createObjectURL(source.file);
+    const element = new Audio(url);
+    element.addEventListener('ended', onEnded);
+    const node = context.createMediaElementSource(element);
+    const destination = context.createMediaStreamDestination();
+    node.connect(destination);
+    return {
+      stream: destination.stream,
+      start: () => {
+        element.play().catch(e => console.error('File playback failed', e));
+      },
+      dispose: () => {
+        element.pause();
+        node.disconnect();
+        URL.revokeObjectURL(url);
+      },
+    };
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { ...micConstraints(processing), deviceId: source.deviceId ? { exact: source.deviceId } : undefined },
+  });
+  return {
+    stream,
+    start: () => {},
+    dispose: () => stream.getTracks().forEach(t => t.stop()),
+  };
+}
@@ -0,0 +1,110 @@
+import { LanguageInfo, LanguagePair, PairPreset } from '../types';
+
+// Pseudo language code for "let the model figure it out" (source side only)
+export const AUTO_DETECT = 'auto';
+
+// Everything the app knows about a language lives here: display names for the
+// UI, optional prompt hints for the interpreter, and the signals the caption
+// language guesser uses (script / stopwords).
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'en', speechLocale: 'en-US', name: 'English', nativeName: 'English', stopwords: ['the', 'and', 'is', 'are', 'you', 'to', 'of', 'that', 'it', 'what', 'we', 'this', 'have'] },
+  { code: 'de', speechLocale: 'de-DE', name: 'German', nativeName: 'Deutsch', stopwords: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sie', 'wir', 'ein', 'eine', 'zu', 'mit', 'auf', 'es'],
+    promptHint: 'Address the audience with the formal "Sie" unless the speaker is clearly informal.',
+    voiceDefaults: { voiceName: 'Kore', register: 'formal' } },
+  { code: 'th', speechLocale: 'th-TH', name: 'Thai', nativeName: 'ไทย', script: 'thai',
+    promptHint: 'Use natural spoken Thai with polite particles (ครับ/ค่ะ) matching the speaker; keep foreign brand names in their original form.',
+    // Tonal: a calmer voice at a slower pace keeps the tones intelligible
+    voiceDefaults: { voiceName: 'Aoede', rate: 'slow' } },
+  { code: 'ko', speechLocale: 'ko-KR', name: 'Korean', nativeName: '한국어', script: 'hangul',
+    promptHint: 'Use the polite formal speech level (합니다체) by default.' },
+  { code: 'fr', speechLocale: 'fr-FR', name: 'French', nativeName: 'Français', stopwords: ['le', 'la', 'les', 'et', 'est', 'une', 'un', 'des', 'je', 'vous', 'nous', 'pas', 'que', 'pour'] },
+  { code: 'es', speechLocale: 'es-ES', name: 'Spanish', nativeName: 'Español', stopwords: ['el', 'los', 'las', 'y', 'es', 'una', 'que', 'por', 'para', 'no', 'yo', 'con', 'pero'] },
+  { code: 'it', speechLocale: 'it-IT', name: 'Italian', nativeName: 'Italiano', stopwords: ['il', 'lo', 'gli', 'e', 'è', 'una', 'che', 'non', 'per', 'sono', 'con', 'io', 'ma'] },
+  { code: 'pt', speechLocale: 'pt-BR', name: 'Portuguese', nativeName: 'Português', stopwords: ['o', 'os', 'as', 'e', 'é', 'uma', 'que', 'não', 'para', 'com', 'eu', 'você', 'mas'] },
+  { code: 'zh', speechLocale: 'cmn-CN', name: 'Chinese (Mandarin)', nativeName: '中文', script: 'han',
+    promptHint: 'Use Simplified Chinese conventions for names and numbers.' },
+  { code: 'ja', speechLocale: 'ja-JP', name: 'Japanese', nativeName: '日本語', script: 'kana',
+    promptHint: 'Use polite desu/masu form.' },
+  { code: 'ru', speechLocale: 'ru-RU', name: 'Russian', nativeName: 'Русский', script: 'cyrillic' },
+  { code: 'ar', speechLocale: 'ar-XA', name: 'Arabic', nativeName: 'العربية', script: 'arabic',
+    promptHint: 'Use Modern Standard Arabic.' },
+  { code: 'hi', speechLocale: 'hi-IN', name: 'Hindi', nativeName: 'हिन्दी', script: 'devanagari' },
+  { code: 'tr', speechLocale: 'tr-TR', name: 'Turkish', nativeName: 'Türkçe', stopwords: ['bir', 've', 'bu', 'için', 'ne', 'ben', 'sen', 'değil', 'var', 'çok', 'da', 'de'] },
+  { code: 'vi', speechLocale: 'vi-VN', name: 'Vietnamese', nativeName: 'Tiếng Việt', script: 'vietnamese' },
+];
+
+export const BUILT_IN_PRESETS: PairPreset[] = [
+  { id: 'auto-de', name: 'Auto -> German', source: AUTO_DETECT, target: 'de', twoWay: false, builtIn: true },
+  { id: 'en-de', name: 'English -> German', source: 'en', target: 'de', twoWay: false, builtIn: true },
+  { id: 'de-en', name: 'German -> English', source: 'de', target: 'en', twoWay: false, builtIn: true },
+  { id: 'de-th', name: 'German -> Thai', source: 'de', target: 'th', twoWay: false, builtIn: true },
+  { id: 'th-de', name: 'Thai -> German', source: 'th', target: 'de', twoWay: false, builtIn: true },
+  { id: 'ko-de', name: 'Korean -> German', source: 'ko', target: 'de', twoWay: false, builtIn: true },
+  { id: 'de-th-conv', name: 'German <-> Thai (Conversation)', source: 'de', target: 'th', twoWay: true, builtIn: true },
+  { id: 'de-en-conv', name: 'German <-> English (Conversation)', source: 'de', target: 'en', twoWay: true, builtIn: true },
+];
+
+// Pseudo preset id for the free source/target selectors
+export const CUSTOM_PRESET_ID = 'custom';
+export const DEFAULT_PRESET_ID = 'auto-de';
+
+const PRESETS_STORAGE_KEY = 'gli.pairPresets';
+
+export function getLanguage(code: string): LanguageInfo | undefined {
+  return LANGUAGES.find(l => l.code === code);
+}
+
+// BCP-47 code for speechConfig.languageCode, undefined lets the model choose
+export function speechLanguageCode(code: string): string | undefined {
+  return getLanguage(code)?.speechLocale;
+}
+
+export function languageName(code: string): string {
+  if (code === AUTO_DETECT) return 'Auto Detect';
+  return getLanguage(code)?.name ?? code;
+}
+
+// Accepts a code or an (English) display name, e.g. from older saved data
+export function resolveLanguageCode(value: string): string {
+  if (value === AUTO_DETECT || value === 'Auto Detect') return AUTO_DETECT;
+  if (getLanguage(value)) return value;
+  return LANGUAGES.find(l => l.name.toLowerCase() === value.toLowerCase())?.code ?? value;
+}
+
+export function presetToPair(preset: Pick<PairPreset, 'source' | 'target' | 'twoWay'>): LanguagePair {
+  // A conversation needs two known languages
+  const source = preset.twoWay && preset.source === AUTO_DETECT ? 'en' : preset.source;
+  return { source, target: preset.target, twoWay: preset.twoWay };
+}
+
+export function formatPair(pair: LanguagePair): string {
+  return `${languageName(pair.source)} ${pair.twoWay ? '<->' : '->'} ${languageName(pair.target)}`;
+}
+
+export function loadUserPresets(): PairPreset[] {
+  try {
+    const raw = localStorage.getItem(PRESETS_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PairPreset[]) : [];
+  } catch (e) {
+    console.warn('Failed to load language presets', e);
+    return [];
+  }
+}
+
+export function saveUserPresets(presets: PairPreset[]) {
+  try {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+  } catch (e) {
+    console.warn('Failed to save language presets', e);
+  }
+}
+
+export function createUserPreset(name: string, pair: LanguagePair): PairPreset {
+  return {
+    id: `user-${Date.now().toString(36)}`,
+    name,
+    source: pair.source,
+    target: pair.target,
+    twoWay: pair.twoWay,
+  };
+}
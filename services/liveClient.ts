@@ -1,7 +1,20 @@
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { LanguageMode } from '../types';
-import { pcmToGeminiBlob } from '../utils/audioUtils';
-import { getSystemInstruction } from './promptFactory';
+import { LiveSendRealtimeInputParameters, LiveServerMessage } from '@google/genai';
+import { BargeInPolicy, InputProcessing, LanguagePair, LiveClientConfig, MixConfig, PlaybackConfig, SessionError, SessionState, TranscriptTurn, TranslationDirection, UsageTotals, VadConfig } from '../types';
+import { pcmToGeminiBlob, resampleLinear } from '../utils/audioUtils';
+import { detectLanguage } from '../utils/languageDetect';
+import { InputChunk, InputFeed, INPUT_SAMPLE_RATE } from './inputFeed';
+import { buildLiveConnectConfig } from './liveConfig';
+import { LiveConnection } from './liveConnection';
+import { DEFAULT_MIX_CONFIG, OutputMixer } from './outputMixer';
+import { DEFAULT_PLAYBACK_CONFIG, PlaybackScheduler } from './playbackScheduler';
+import { SessionMetrics } from './sessionMetrics';
+import { SessionRecorder } from './sessionRecorder';
+import { METER_FFT_SIZE, meterLevel } from './signalAnalysis';
+import { canTransition, inputError } from './sessionState';
+import { TranscriptLog } from './transcript';
+import { createDefaultTransport, LIVE_MODEL, LiveTransport } from './transport';
+import { addUsage, EMPTY_USAGE } from './usage';
+import { DEFAULT_VAD_CONFIG, VoiceActivityDetector } from './vad';
 
 // Define the sink ID type for AudioContext (experimental feature)
 interface AudioContextWithSinkId extends AudioContext {
@@ -9,33 +22,34 @@ interface AudioContextWithSinkId extends AudioContext {
   sinkId: string;
 }
 
-// 1. INPUT WORKLET: Handles Microphone Stream (Audio Thread)
-const inputWorkletCode = `
-class RecorderProcessor extends AudioWorkletProcessor {
-  constructor() {
-    super();
-    this.bufferSize = 2048;
-    this.buffer = new Float32Array(this.bufferSize);
-    this.index = 0;
-  }
-
-  process(inputs, outputs, parameters) {
-    const input = inputs[0];
-    if (input && input.length > 0) {
-      const channel = input[0];
-      for (let i = 0; i < channel.length; i++) {
-        this.buffer[this.index++] = channel[i];
-        if (this.index >= this.bufferSize) {
-          this.port.postMessage(this.buffer);
-          this.index = 0;
-        }
-      }
-    }
-    return true;
-  }
+interface HTMLAudioElementWithSinkId extends HTMLAudioElement {
+  setSinkId(deviceId: string): Promise<void>;
+}
+
+// Typed events, see LiveClient.on()
+export interface LiveClientEvents {
+  state: (state: SessionState, previous: SessionState) => void;
+  error: (error: SessionError) => void; // followed by the 'error' state
+  message: (message: LiveServerMessage) => void; // every server message, raw
+}
+
+// One decoded chunk on the output timeline
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  buffer: AudioBuffer;
+  startAt: number;
+  duration: number;  // on the timeline, i.e. after playbackRate
+  playbackRate: number;
+  reverse: boolean;  // routed to the reverse-direction device
 }
-registerProcessor('recorder-processor', RecorderProcessor);
-`;
+
+// Barge-in: level of superseded audio when ducking, and fade times
+const DUCK_LEVEL = 0.2;
+const DUCK_TIME_CONSTANT = 0.05;
+const FLUSH_FADE_SECONDS = 0.03;
+// Language switch: old interpretation fades out as the new one fades in
+const CROSSFADE_SECONDS = 0.25;
 
 // 2. DECODER WORKER: Handles Base64 -> Float32 Conversion (Background Thread / Multi-core)
 // This offloads the CPU heavy string parsing from the main UI thread.
@@ -64,70 +78,181 @@ self.onmessage = (e) => {
 `;
 
 export class LiveClient {
-  private ai: GoogleGenAI;
-  private inputContext: AudioContext | null = null;
+  private transport: LiveTransport;
   private outputContext: AudioContextWithSinkId | null = null;
-  private stream: MediaStream | null = null;
-  
-  // Input Nodes
-  private workletNode: AudioWorkletNode | null = null;
-  private sourceNode: MediaStreamAudioSourceNode | null = null;
+
+  // Input: own capture, or a feed shared with other clients (broadcast)
+  private feed: InputFeed | null = null;
+  private ownsFeed = false;
+  private unsubscribeFeed: (() => void) | null = null;
   
   // Decoder Worker
   private decoderWorker: Worker | null = null;
+  private decoderUrl: string | null = null;
 
   private nextStartTime = 0;
-  private currentSession: Promise<any> | null = null; 
+
+  // Scheduled playback, tracked so an interruption can duck or flush it
+  private scheduledSources = new Set<ScheduledChunk>();
+  private bargeInPolicy: BargeInPolicy = 'queue';
+  // Decodes in flight when we flushed belong to the interrupted turn
+  private decodeEpoch = 0;
+  private pendingDecodes: { epoch: number; postedAt: number; crossfade: boolean }[] = [];
+  private crossfadeGeneration: number | null = null; // session whose first audio crossfades in
+
+  // Keeps the translation within a maximum lag behind the speaker
+  private playback = new PlaybackScheduler(DEFAULT_PLAYBACK_CONFIG, 24000);
+  private onBacklogChange: ((seconds: number) => void) | null = null;
   private active = false;
+
+  // The Live session itself: reconnects, resumption, goAway handover
+  private sessionConfig: LiveClientConfig | null = null;
+  private connection: LiveConnection | null = null;
+  private state: SessionState = 'idle';
+  private listeners: { [K in keyof LiveClientEvents]: Set<LiveClientEvents[K]> } = {
+    state: new Set(),
+    error: new Set(),
+    message: new Set(),
+  };
+
+  // Client-side voice activity gate (replaces the server's automatic detection)
+  private vad: VoiceActivityDetector | null = null;
+  private onSpeechActivity: ((speaking: boolean) => void) | null = null;
+
+  // Push-to-talk and mutes (mutes survive across sessions)
+  private pushToTalk = false;
+  private talking = false;
+  private micMuted = false;
+  private outputMuted = false;
   
   // Direct callback for Game-Loop style updates (no React Overhead)
   private onVolumeChange: ((type: 'input' | 'output', volume: number) => void) | null = null;
+  private onTranscript: ((turns: TranscriptTurn[]) => void) | null = null;
+  private onOutputAudio: ((data: Float32Array) => void) | null = null;
+
+  // Source / target captions grouped per turn
+  private transcript = new TranscriptLog();
+
+  // Recording (kept after stop() so it can be exported)
+  private recordingEnabled = false;
+  private recorder: SessionRecorder | null = null;
+
+  // Billed tokens of the current (or last) session
+  private usage: UsageTotals = EMPTY_USAGE;
+  private onUsage: ((usage: UsageTotals) => void) | null = null;
+
+  // Latency / quality figures of the current (or last) session
+  private metrics: SessionMetrics | null = null;
+  // Without a client-side gate, speech ends are only detected for the metrics
+  private speechEndDetector: VoiceActivityDetector | null = null;
   
+  // Two-way conversation: current direction and optional second output device
+  private languagePair: LanguagePair | null = null;
+  private direction: TranslationDirection | null = null;
+  private onDirectionChange: ((direction: TranslationDirection) => void) | null = null;
+  private reverseOutput: { destination: MediaStreamAudioDestinationNode; element: HTMLAudioElementWithSinkId } | null = null;
+
   private inputAnalyser: AnalyserNode | null = null;
   private outputAnalyser: AnalyserNode | null = null;
+  private outputBus: GainNode | null = null; // everything to the main speaker (mute point)
+  private mixer: OutputMixer | null = null;  // original under the interpretation
+  private mixConfig: MixConfig = DEFAULT_MIX_CONFIG;
   private cleanupFrame: number | null = null;
 
-  constructor() {
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  constructor(transport: LiveTransport = createDefaultTransport()) {
+    this.transport = transport;
     this.initDecoderWorker();
   }
 
   private initDecoderWorker() {
     const blob = new Blob([decoderWorkerCode], { type: "application/javascript" });
-    this.decoderWorker = new Worker(URL.createObjectURL(blob));
+    this.decoderUrl = URL.createObjectURL(blob);
+    this.decoderWorker = new Worker(this.decoderUrl);
     
     this.decoderWorker.onmessage = (e) => {
       const audioData = e.data as Float32Array; // Received Float32 from worker
-      this.queueAudio(audioData);
+      // Worker answers in order, so the head of the queue is this chunk's epoch
+      const pending = this.pendingDecodes.shift();
+      if (!pending) return;
+      this.metrics?.recordDecode(performance.now() - pending.postedAt);
+      if (pending.epoch !== this.decodeEpoch) return;
+      this.queueAudio(audioData, pending.crossfade);
     };
   }
 
-  async connect(config: { micDeviceId?: string; speakerDeviceId?: string; languageMode: LanguageMode; customSource?: string; customTarget?: string; onVolumeChange: (type: 'input' | 'output', v: number) => void }) {
+  get sessionState(): SessionState {
+    return this.state;
+  }
+
+  // Subscribe to a typed event; returns the unsubscribe function
+  on<K extends keyof LiveClientEvents>(event: K, listener: LiveClientEvents[K]): () => void {
+    const listeners = this.listeners[event] as Set<LiveClientEvents[K]>;
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  private emit<K extends keyof LiveClientEvents>(event: K, ...args: Parameters<LiveClientEvents[K]>) {
+    (this.listeners[event] as Set<(...a: Parameters<LiveClientEvents[K]>) => void>).forEach(listener => listener(...args));
+  }
+
+  private transition(to: SessionState) {
+    const from = this.state;
+    if (from === to && to !== 'reconnecting') return;
+    if (!canTransition(from, to)) {
+      console.warn(`LiveClient: ignoring transition ${from} -> ${to}`);
+      return;
+    }
+    this.state = to;
+    this.emit('state', to, from);
+  }
+
+  // `feed`: share another capture instead of opening the input (broadcast)
+  async connect(config: LiveClientConfig, feed?: InputFeed) {
     this.active = true;
+    this.transition('acquiring-mic');
+    // Token fetch overlaps with opening the input
+    this.transport.prepare?.();
     this.onVolumeChange = config.onVolumeChange;
+    this.onTranscript = config.onTranscript ?? null;
+    this.onOutputAudio = config.onOutputAudio ?? null;
+    this.onUsage = config.onUsage ?? null;
+    this.onDirectionChange = config.onDirectionChange ?? null;
+    this.onSpeechActivity = config.onSpeechActivity ?? null;
+    this.bargeInPolicy = config.bargeIn ?? 'queue';
+    this.mixConfig = config.mix ?? DEFAULT_MIX_CONFIG;
+    this.playback.updateConfig(config.playback ?? DEFAULT_PLAYBACK_CONFIG);
+    this.onBacklogChange = config.onBacklogChange ?? null;
+    this.pushToTalk = !!config.pushToTalk;
+    this.talking = false;
+    // Push-to-talk marks the turns itself, the VAD gate would only get in the way
+    this.vad = config.vad?.enabled && !this.pushToTalk ? new VoiceActivityDetector(config.vad, INPUT_SAMPLE_RATE) : null;
+    this.languagePair = config.pair;
+    this.direction = { source: this.languagePair.source, target: this.languagePair.target };
+    this.sessionConfig = config;
+    this.transcript.clear();
+    this.recordingEnabled = !!config.record;
+    this.recorder = null;
+    this.usage = EMPTY_USAGE;
+    this.metrics = new SessionMetrics({
+      model: LIVE_MODEL,
+      pair: config.pair,
+      voice: config.voice,
+      vad: !!this.vad,
+      pushToTalk: this.pushToTalk,
+      bargeIn: this.bargeInPolicy,
+      playback: config.playback ?? DEFAULT_PLAYBACK_CONFIG,
+    });
+    this.connection?.close();
+    const connection = this.createConnection(this.metrics);
+    this.connection = connection;
+    this.speechEndDetector = !this.vad && !this.pushToTalk
+      ? new VoiceActivityDetector({ ...DEFAULT_VAD_CONFIG, enabled: true }, INPUT_SAMPLE_RATE)
+      : null;
     
     // 1. Setup Audio Contexts
-    const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-    this.inputContext = new AudioContext({ sampleRate: 16000 });
+    const AudioContext = window.AudioContext || window.webkitAudioContext;
     this.outputContext = new AudioContext({ sampleRate: 24000 }) as AudioContextWithSinkId;
 
-    // Load Input AudioWorklet
-    try {
-      const blob = new Blob([inputWorkletCode], { type: "application/javascript" });
-      const workletUrl = URL.createObjectURL(blob);
-      await this.inputContext.audioWorklet.addModule(workletUrl);
-    } catch (e) {
-      console.error("Failed to load audio worklet", e);
-      // Try to clean up if failed
-      this.stop();
-      throw e;
-    }
-
-    // Safety check: stop() might have been called while awaiting addModule
-    if (!this.active || !this.inputContext || !this.outputContext) {
-      return;
-    }
-
     // 2. Configure Output Device
     if (config.speakerDeviceId && typeof this.outputContext.setSinkId === 'function') {
       try {
@@ -138,208 +263,621 @@ export class LiveClient {
     }
 
     // 3. Setup Analysers
-    this.inputAnalyser = this.inputContext.createAnalyser();
-    this.inputAnalyser.fftSize = 64; 
-    this.inputAnalyser.smoothingTimeConstant = 0.5;
     this.outputAnalyser = this.outputContext.createAnalyser();
-    this.outputAnalyser.fftSize = 64;
+    this.outputAnalyser.fftSize = METER_FFT_SIZE;
     this.outputAnalyser.smoothingTimeConstant = 0.5;
+    this.outputBus = this.outputContext.createGain();
+    this.outputBus.gain.value = this.outputMuted ? 0 : 1;
+    this.outputBus.connect(this.outputContext.destination);
+    this.mixer = new OutputMixer(this.outputContext, this.outputBus, this.mixConfig);
+
+    // Two-way mode: the reverse direction can go to its own device
+    if (this.languagePair.twoWay && config.reverseSpeakerDeviceId && config.reverseSpeakerDeviceId !== config.speakerDeviceId) {
+      await this.setupReverseOutput(config.reverseSpeakerDeviceId);
+    }
 
     this.startVolumeMonitoring();
 
     // 4. Get Input Stream
-    try {
-        this.stream = await navigator.mediaDevices.getUserMedia({
-          audio: {
-            deviceId: config.micDeviceId ? { exact: config.micDeviceId } : undefined,
-            channelCount: 1,
-            sampleRate: 16000,
-            echoCancellation: true, // Critical for simultaneous use
-            autoGainControl: true,
-            noiseSuppression: true
-          }
-        });
-    } catch (e) {
-        console.error("Failed to get user media", e);
-        this.stop();
+    this.ownsFeed = !feed;
+    this.feed = feed ?? new InputFeed();
+    if (this.ownsFeed) {
+      const source = config.input ?? { kind: 'mic', deviceId: config.micDeviceId };
+      try {
+        await this.feed.start(source, config.inputProcessing);
+      } catch (e) {
+        console.error("Failed to get input stream", e);
+        await this.fail(inputError(e, source.kind));
         throw e;
+      }
     }
 
     // Safety check: stop() might have been called while awaiting getUserMedia
-    if (!this.active || !this.inputContext) {
+    if (!this.active || !this.feed?.stream) {
       this.stop(); // Ensure cleanup
       return;
     }
 
+    this.inputAnalyser = this.feed.analyser;
+    this.mixer?.setOriginal(this.feed.stream);
+
     // 5. Connect to Gemini Live
-    this.currentSession = this.ai.live.connect({
-      model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-      config: {
-        responseModalities: [Modality.AUDIO],
-        // FIXED: Added speechConfig to prevent inference errors
-        speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-        },
-        systemInstruction: getSystemInstruction(config.languageMode, config.customSource, config.customTarget),
+    this.transition('connecting');
+    connection.start();
+  }
+
+  private createConnection(metrics: SessionMetrics): LiveConnection {
+    const connection = new LiveConnection(
+      this.transport,
+      resumptionHandle => {
+        const config = this.sessionConfig!;
+        return buildLiveConnectConfig({
+          pair: config.pair,
+          glossary: config.glossary,
+          voice: config.voice,
+          resumptionHandle,
+          manualActivity: !!this.vad || this.pushToTalk,
+        });
       },
-      callbacks: {
-        onopen: () => {
-          console.log('Gemini Live Connected');
-          this.startAudioStreaming();
+      {
+        onOpen: () => {
+          this.transition('live');
+          if (!this.unsubscribeFeed) {
+            this.startAudioStreaming();
+          }
+          connection.flushPending(this.vad?.isSpeaking || (this.pushToTalk && this.talking));
+        },
+        // Messages of a superseded session (GoAway handover, language switch) are still played out
+        onMessage: (message, generation, current) => this.handleMessage(message, generation, current),
+        onReconnecting: (lost) => {
+          if (lost) {
+            // Close the current turn, the new socket starts a fresh one
+            this.transcript.completeTurn();
+            metrics.recordReconnect();
+          }
+          this.transition('reconnecting');
         },
-        onmessage: (msg) => this.handleMessage(msg),
-        onclose: () => {
-          console.log('Gemini Live Closed');
-          this.stop(); 
+        onFail: (error) => this.fail(error),
+        onInputSent: (input) => {
+          if (input.media) metrics.recordChunkSent();
         },
-        onerror: (e) => {
-          console.error('Gemini Live Error', e);
-        }
+        onInputDropped: () => metrics.recordInputDropped(),
+        onSendFailure: () => metrics.recordSendFailure(),
+      },
+    );
+    return connection;
+  }
+
+  // New language pair (and the glossary / voice that go with it) while live:
+  // only the Live session is replaced, the input, output graph, decoder and
+  // meters keep running. What is still queued of the old pair plays until the
+  // new session's first audio, which crossfades in.
+  async switchLanguagePair(update: Pick<LiveClientConfig, 'pair' | 'glossary' | 'voice' | 'reverseSpeakerDeviceId'>) {
+    if (!this.active || !this.sessionConfig || (this.state !== 'live' && this.state !== 'reconnecting')) return;
+    console.log('Gemini Live: switching to', update.pair.source, '->', update.pair.target);
+
+    this.sessionConfig = { ...this.sessionConfig, ...update };
+    this.languagePair = update.pair;
+    this.transcript.completeTurn();
+    this.onTranscript?.(this.transcript.getTurns());
+    this.direction = { source: update.pair.source, target: update.pair.target };
+    if (update.pair.twoWay && update.reverseSpeakerDeviceId && !this.reverseOutput
+      && update.reverseSpeakerDeviceId !== this.sessionConfig.speakerDeviceId) {
+      await this.setupReverseOutput(update.reverseSpeakerDeviceId);
+    }
+    if (!this.active) return;
+
+    // The handle would resume the old instruction, the new session starts
+    // fresh. Already waiting to reconnect: that attempt picks up the new config.
+    const generation = this.connection?.restart();
+    if (generation != null) this.crossfadeGeneration = generation;
+  }
+
+  private sendInput(input: LiveSendRealtimeInputParameters) {
+    this.connection?.send(input);
+  }
+
+  // Mic buffer from the feed -> (VAD gate) -> session
+  // Returns the audio sent to the model, for the recording
+  private handleInputChunk(chunk: InputChunk): Float32Array[] {
+    if (this.micMuted) return [];
+
+    if (this.pushToTalk) {
+      if (!this.talking) return [];
+      this.sendInput({ media: chunk.blob });
+      return [chunk.data];
+    }
+
+    if (!this.vad) {
+      this.sendInput({ media: chunk.blob });
+      if (this.speechEndDetector?.process(chunk.data).ended) {
+        this.markSpeechEnd(this.speechEndDetector);
       }
-    });
+      return [chunk.data];
+    }
+
+    const decision = this.vad.process(chunk.data);
+    if (decision.started) {
+      this.sendInput({ activityStart: {} });
+      this.onSpeechActivity?.(true);
+    }
+    // Pre-roll buffers weren't sent yet, only the current one is encoded already
+    for (const data of decision.chunks) {
+      this.sendInput({ media: data === chunk.data ? chunk.blob : pcmToGeminiBlob(data, INPUT_SAMPLE_RATE) });
+    }
+    if (decision.ended) {
+      this.sendInput({ activityEnd: {} });
+      this.onSpeechActivity?.(false);
+      this.markSpeechEnd(this.vad);
+    }
+    return decision.chunks;
+  }
+
+  // A detector reports the end only after its hangover, the speaker stopped earlier
+  private markSpeechEnd(detector?: VoiceActivityDetector) {
+    this.metrics?.markSpeechEnd(performance.now() - (detector?.hangoverMs ?? 0));
+  }
+
+  // File finished or tab sharing stopped: let the model finish the last turn
+  private handleInputEnded() {
+    if (!this.active) return;
+    if (this.talking) {
+      this.setTalking(false);
+    } else if (this.vad?.isSpeaking) {
+      this.vad.reset();
+      this.sendInput({ activityEnd: {} });
+      this.onSpeechActivity?.(false);
+      this.markSpeechEnd();
+    } else if (!this.vad && !this.pushToTalk) {
+      this.sendInput({ audioStreamEnd: true });
+      this.markSpeechEnd();
+    }
+  }
+
+  // Unrecoverable: report why, then tear down into the 'error' state
+  private async fail(error: SessionError) {
+    if (!this.active) return;
+    console.error('LiveClient error:', error.kind, error.detail ?? error.message);
+    this.emit('error', error);
+    await this.shutdown('error');
   }
 
   private startAudioStreaming() {
-    if (!this.inputContext || !this.stream || !this.currentSession) return;
+    if (!this.feed || !this.connection) return;
 
-    this.sourceNode = this.inputContext.createMediaStreamSource(this.stream);
-    
-    // Connect to Worklet
-    this.workletNode = new AudioWorkletNode(this.inputContext, 'recorder-processor');
-    this.workletNode.port.onmessage = (event) => {
-      if (!this.active) return;
-      
-      const inputData = event.data;
-      const blob = pcmToGeminiBlob(inputData, 16000);
-      
-      this.currentSession?.then(session => {
-         session.sendRealtimeInput({ media: blob });
-      });
-    };
+    if (this.recordingEnabled && this.outputContext) {
+      this.recorder = new SessionRecorder(this.outputContext.currentTime);
+    }
 
-    // Connect Analysis (Main Thread)
-    this.sourceNode.connect(this.inputAnalyser!);
-    
-    // Connect Processing (Audio Thread)
-    this.sourceNode.connect(this.workletNode);
-    this.workletNode.connect(this.inputContext.destination);
+    this.unsubscribeFeed = this.feed.subscribe(chunk => {
+      if (!this.active) return;
+      const sent = this.handleInputChunk(chunk);
+      this.recorder?.addInput(chunk.data.length, sent);
+    }, () => this.handleInputEnded());
+    // Files start playing once there is a session to hear them
+    this.feed.play();
   }
 
-  private handleMessage(message: LiveServerMessage) {
+  // `current`: from the current socket; a replaced one only finishes its
+  // audio, captions and usage (resumption and goAway are the connection's)
+  private handleMessage(message: LiveServerMessage, generation: number, current: boolean) {
     if (!this.outputContext) return;
+    this.emit('message', message);
 
-    // Do NOT stop audio on interruption to allow simultaneous output
-    if (message.serverContent?.interrupted) {
-       // logic removed
+    if (message.usageMetadata) {
+      this.usage = addUsage(this.usage, message.usageMetadata);
+      this.onUsage?.(this.usage);
+    }
+
+    // Default policy keeps queueing to allow simultaneous output
+    if (current && message.serverContent?.interrupted) {
+      this.handleInterruption();
     }
 
     const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
     if (base64Audio) {
+      this.metrics?.recordAudioReceived();
       // Send to Worker for parallel processing
+      const crossfade = generation === this.crossfadeGeneration;
+      if (crossfade) this.crossfadeGeneration = null;
+      this.pendingDecodes.push({ epoch: this.decodeEpoch, postedAt: performance.now(), crossfade });
       this.decoderWorker?.postMessage(base64Audio);
     }
+
+    this.handleTranscription(message);
+  }
+
+  // Push-to-talk: open the mic and start a turn on press, end it on release
+  setTalking(talking: boolean) {
+    if (!this.pushToTalk || !this.active || this.talking === talking) return;
+    this.talking = talking;
+    this.sendInput(talking ? { activityStart: {} } : { activityEnd: {} });
+    this.onSpeechActivity?.(talking);
+    if (!talking) this.markSpeechEnd();
+  }
+
+  setMicMuted(muted: boolean) {
+    this.micMuted = muted;
+    if (!muted || !this.active) return;
+    // Close an open turn so the model doesn't wait for more audio
+    if (this.talking) {
+      this.setTalking(false);
+    } else if (this.vad?.isSpeaking) {
+      this.vad.reset();
+      this.sendInput({ activityEnd: {} });
+      this.onSpeechActivity?.(false);
+    }
+  }
+
+  setOutputMuted(muted: boolean) {
+    this.outputMuted = muted;
+    if (this.outputBus && this.outputContext) {
+      this.outputBus.gain.setTargetAtTime(muted ? 0 : 1, this.outputContext.currentTime, 0.01);
+    }
+    if (this.reverseOutput) {
+      this.reverseOutput.element.muted = muted;
+    }
+  }
+
+  // Thresholds can be tuned while live; enabling the gate needs a new session
+  updateVadConfig(config: VadConfig) {
+    this.vad?.updateConfig(config);
+  }
+
+  // Mix levels and stereo split apply immediately
+  updateMixConfig(config: MixConfig) {
+    this.mixConfig = config;
+    this.mixer?.updateConfig(config);
+  }
+
+  // Gain and low cut apply immediately; a shared feed belongs to the broadcast
+  updateInputProcessing(processing: InputProcessing) {
+    if (this.ownsFeed) this.feed?.updateProcessing(processing);
+  }
+
+  updatePlaybackConfig(config: PlaybackConfig) {
+    this.playback.updateConfig(config);
+  }
+
+  // Seconds of translation scheduled but not yet heard
+  getBacklogSeconds(): number {
+    if (!this.outputContext) return 0;
+    return Math.max(0, this.nextStartTime - this.outputContext.currentTime);
+  }
+
+  private handleTranscription(message: LiveServerMessage) {
+    const content = message.serverContent;
+    if (!content) return;
+
+    let changed = false;
+    if (content.inputTranscription?.text) {
+      this.transcript.appendSource(content.inputTranscription.text);
+      changed = true;
+    }
+    if (content.outputTranscription?.text) {
+      this.transcript.appendTarget(content.outputTranscription.text);
+      changed = true;
+    }
+    if (changed && this.languagePair?.twoWay) {
+      this.updateDirection();
+    }
+    if (content.turnComplete) {
+      this.transcript.completeTurn();
+      changed = true;
+    }
+
+    if (changed && this.onTranscript) {
+      this.onTranscript(this.transcript.getTurns());
+    }
   }
 
   // Called when Worker finishes decoding
-  private queueAudio(float32Data: Float32Array) {
+  private queueAudio(float32Data: Float32Array, crossfade = false) {
     if (!this.outputContext || !this.outputAnalyser) return;
 
-    const buffer = this.outputContext.createBuffer(1, float32Data.length, 24000);
-    buffer.copyToChannel(float32Data, 0);
-
     const now = this.outputContext.currentTime;
+    // Nothing of the old pair left to hear: no need to fade in either
+    const fadeIn = crossfade && this.scheduledSources.size > 0;
+    if (fadeIn) this.fadeOutScheduled(now);
     // Gapless scheduling
     this.nextStartTime = Math.max(this.nextStartTime, now);
 
-    const source = this.outputContext.createBufferSource();
+    // Too far behind the speaker: catch up before adding more
+    if (this.playback.strategy === 'drop') {
+      this.dropOldestQueued(float32Data.length / 24000);
+    }
+    const { data, playbackRate } = this.playback.prepare(float32Data, this.nextStartTime - now);
+    if (data.length === 0) return;
+    this.metrics?.recordScheduled(this.nextStartTime - now);
+    this.onOutputAudio?.(data);
+
+    const buffer = this.outputContext.createBuffer(1, data.length, 24000);
+    buffer.copyToChannel(data, 0);
+    this.scheduleBuffer(buffer, this.nextStartTime, playbackRate, this.isReverseDirection(), fadeIn);
+    this.nextStartTime += buffer.duration / playbackRate;
+  }
+
+  private scheduleBuffer(buffer: AudioBuffer, startAt: number, playbackRate: number, reverse: boolean, fadeIn = false) {
+    const context = this.outputContext!;
+    const source = context.createBufferSource();
     source.buffer = buffer;
-    source.connect(this.outputAnalyser); 
-    this.outputAnalyser.connect(this.outputContext.destination);
-    
-    source.start(this.nextStartTime);
-    this.nextStartTime += buffer.duration;
+    // Pitch rises with the rate, the scheduler keeps it modest
+    source.playbackRate.value = playbackRate;
+    // Per-chunk gain so barge-in can duck or fade what is already scheduled
+    const gain = context.createGain();
+    if (fadeIn) {
+      gain.gain.setValueAtTime(0, startAt);
+      gain.gain.linearRampToValueAtTime(1, startAt + CROSSFADE_SECONDS);
+    }
+    source.connect(gain);
+    // Analyser is a metering tap only, routing happens through the buses
+    gain.connect(this.outputAnalyser!);
+    if (reverse && this.reverseOutput) {
+      gain.connect(this.reverseOutput.destination);
+    } else {
+      gain.connect(this.mixer!.interpretationInput);
+      this.mixer!.duckDuring(startAt, startAt + buffer.duration / playbackRate);
+    }
+
+    source.start(startAt);
+    const data = buffer.getChannelData(0);
+    // The recording follows what is heard, sped-up chunks included
+    this.recorder?.addOutput(playbackRate === 1 ? data : resampleLinear(data, 24000 * playbackRate, 24000), startAt);
+
+    const entry: ScheduledChunk = { source, gain, buffer, startAt, duration: buffer.duration / playbackRate, playbackRate, reverse };
+    this.scheduledSources.add(entry);
 
     // Automatic Garbage Collection
     source.onended = () => {
       source.disconnect();
+      gain.disconnect();
+      this.scheduledSources.delete(entry);
     };
   }
 
+  // 'drop' catch-up: forget the oldest chunks that haven't started yet and
+  // move the rest forward so the newest speech is heard sooner
+  private dropOldestQueued(incomingSeconds: number) {
+    const now = this.outputContext!.currentTime;
+    const queued = Array.from(this.scheduledSources)
+      .filter(c => c.startAt > now)
+      .sort((a, b) => a.startAt - b.startAt);
+    const backlog = this.nextStartTime - now + incomingSeconds;
+    const count = this.playback.dropCount([...queued.map(c => c.duration), incomingSeconds], backlog);
+    if (count === 0 || queued.length === 0) return;
+
+    queued.forEach(c => {
+      c.source.onended = null;
+      c.source.stop();
+      c.source.disconnect();
+      c.gain.disconnect();
+      this.scheduledSources.delete(c);
+    });
+    const resumeAt = queued[0].startAt;
+    this.recorder?.discardOutputAfter(resumeAt);
+
+    this.nextStartTime = resumeAt;
+    // Kept chunks play at the rate they were scheduled with
+    for (const chunk of queued.slice(count)) {
+      this.scheduleBuffer(chunk.buffer, this.nextStartTime, chunk.playbackRate, chunk.reverse);
+      this.nextStartTime += chunk.duration;
+    }
+  }
+
+  // The model moved on: apply the configured barge-in policy to the backlog
+  private handleInterruption() {
+    if (!this.outputContext || this.bargeInPolicy === 'queue') return;
+    const now = this.outputContext.currentTime;
+
+    if (this.bargeInPolicy === 'duck') {
+      // Old audio keeps playing quietly, new audio starts right away on top
+      this.scheduledSources.forEach(({ gain }) => {
+        gain.gain.setTargetAtTime(DUCK_LEVEL, now, DUCK_TIME_CONSTANT);
+      });
+      this.nextStartTime = now;
+      return;
+    }
+
+    // flush: short fade, then stop everything that is scheduled
+    this.decodeEpoch++;
+    this.scheduledSources.forEach(({ source, gain }) => {
+      gain.gain.setTargetAtTime(0, now, FLUSH_FADE_SECONDS / 3);
+      try {
+        source.stop(now + FLUSH_FADE_SECONDS);
+      } catch {
+        // Already stopped
+      }
+    });
+    this.scheduledSources.clear();
+    this.mixer?.release(now);
+    this.recorder?.discardOutputAfter(now);
+    this.nextStartTime = now;
+  }
+
+  // Language switch: everything of the old pair fades out from `now`
+  private fadeOutScheduled(now: number) {
+    this.scheduledSources.forEach(({ source, gain, startAt }) => {
+      if (startAt >= now) {
+        // Not started yet, nothing to fade
+        source.stop();
+        return;
+      }
+      gain.gain.setValueAtTime(gain.gain.value, now);
+      gain.gain.linearRampToValueAtTime(0, now + CROSSFADE_SECONDS);
+      try {
+        source.stop(now + CROSSFADE_SECONDS);
+      } catch {
+        // Already stopped
+      }
+    });
+    this.mixer?.release(now);
+    this.recorder?.discardOutputAfter(now);
+    this.nextStartTime = now;
+  }
+
+  setBargeInPolicy(policy: BargeInPolicy) {
+    this.bargeInPolicy = policy;
+  }
+
+  // Guess the direction of the current turn from its captions:
+  // the input tells us the spoken language, the output the target language.
+  private updateDirection() {
+    const pair = this.languagePair;
+    const turn = this.transcript.getCurrentTurn();
+    if (!pair || !turn) return;
+
+    const candidates = [pair.source, pair.target];
+    let spoken = detectLanguage(turn.source, candidates);
+    if (!spoken) {
+      const translatedTo = detectLanguage(turn.target, candidates);
+      if (translatedTo) spoken = translatedTo === pair.source ? pair.target : pair.source;
+    }
+    if (!spoken) return;
+
+    const direction = spoken === pair.source
+      ? { source: pair.source, target: pair.target }
+      : { source: pair.target, target: pair.source };
+    this.transcript.setDirection(direction);
+
+    if (this.direction?.source !== direction.source) {
+      this.direction = direction;
+      this.onDirectionChange?.(direction);
+    }
+  }
+
+  private isReverseDirection(): boolean {
+    return !!this.languagePair?.twoWay && this.direction?.source === this.languagePair.target;
+  }
+
+  private async setupReverseOutput(deviceId: string) {
+    if (!this.outputContext) return;
+    const element = new Audio() as HTMLAudioElementWithSinkId;
+    if (typeof element.setSinkId !== 'function') {
+      console.warn('Per-direction output not supported in this browser');
+      return;
+    }
+    try {
+      await element.setSinkId(deviceId);
+    } catch (e) {
+      console.warn('Failed to set reverse output device', e);
+      return;
+    }
+    const destination = this.outputContext.createMediaStreamDestination();
+    element.srcObject = destination.stream;
+    element.muted = this.outputMuted;
+    element.play().catch(e => console.warn('Reverse output playback blocked', e));
+    this.reverseOutput = { destination, element };
+  }
+
+  // Recording of the last (or current) session, if recording was enabled
+  getRecording(): SessionRecorder | null {
+    return this.recorder && !this.recorder.isEmpty ? this.recorder : null;
+  }
+
+  getTranscript(): TranscriptTurn[] {
+    return this.transcript.getTurns();
+  }
+
+  // Token totals of the current session, or of the last one after stop()
+  getUsage(): UsageTotals {
+    return this.usage;
+  }
+
+  // Metrics of the current session, or of the last one after stop()
+  getMetrics(): SessionMetrics | null {
+    return this.metrics;
+  }
+
+  // Meter taps of the running session, for the audio diagnostics view
+  getAnalysers(): { input: AnalyserNode | null; output: AnalyserNode | null } {
+    return { input: this.inputAnalyser, output: this.outputAnalyser };
+  }
+
   private startVolumeMonitoring() {
-    const dataArray = new Uint8Array(64);
+    const dataArray = new Uint8Array(METER_FFT_SIZE);
     
     const update = () => {
       if (!this.active) return;
 
       if (this.inputAnalyser && this.onVolumeChange) {
-        this.inputAnalyser.getByteTimeDomainData(dataArray);
-        // Standard RMS calculation
-        let sum = 0;
-        for (let i = 0; i < dataArray.length; i++) {
-            const x = (dataArray[i] - 128) / 128.0;
-            sum += x * x;
-        }
-        const rms = Math.sqrt(sum / dataArray.length);
-        // Boost factor for visibility
-        this.onVolumeChange('input', Math.min(1, rms * 4)); 
+        this.onVolumeChange('input', meterLevel(this.inputAnalyser, dataArray));
       }
 
       if (this.outputAnalyser && this.onVolumeChange) {
-        this.outputAnalyser.getByteTimeDomainData(dataArray);
-        let sum = 0;
-        for (let i = 0; i < dataArray.length; i++) {
-            const x = (dataArray[i] - 128) / 128.0;
-            sum += x * x;
-        }
-        const rms = Math.sqrt(sum / dataArray.length);
-        this.onVolumeChange('output', Math.min(1, rms * 4));
+        this.onVolumeChange('output', meterLevel(this.outputAnalyser, dataArray));
       }
 
+      this.onBacklogChange?.(this.getBacklogSeconds());
+
       this.cleanupFrame = requestAnimationFrame(update);
     };
     update();
   }
 
   async stop() {
+    await this.shutdown('closed');
+  }
+
+  // Stop and release the decoder worker; the client can't connect again
+  async dispose() {
+    await this.stop();
+    this.decoderWorker?.terminate();
+    this.decoderWorker = null;
+    if (this.decoderUrl) URL.revokeObjectURL(this.decoderUrl);
+    this.decoderUrl = null;
+  }
+
+  private async shutdown(finalState: 'closed' | 'error') {
+    const wasActive = this.active;
     this.active = false;
-    
+    this.connection?.close();
+    this.connection = null;
+    this.vad = null;
+    this.speechEndDetector = null;
+    this.metrics?.finish();
+
     if (this.cleanupFrame) {
       cancelAnimationFrame(this.cleanupFrame);
       this.cleanupFrame = null;
     }
 
-    if (this.workletNode) {
-      this.workletNode.disconnect();
-      this.workletNode = null;
-    }
-    
-    if (this.sourceNode) {
-      this.sourceNode.disconnect();
-      this.sourceNode = null;
+    if (this.unsubscribeFeed) {
+      this.unsubscribeFeed();
+      this.unsubscribeFeed = null;
     }
 
-    if (this.stream) {
-      this.stream.getTracks().forEach(t => t.stop());
-      this.stream = null;
+    if (this.feed) {
+      // A shared feed belongs to whoever passed it in
+      if (this.ownsFeed) await this.feed.stop();
+      this.feed = null;
     }
+    this.inputAnalyser = null;
 
-    if (this.inputContext) {
-      await this.inputContext.close();
-      this.inputContext = null;
+    if (this.reverseOutput) {
+      this.reverseOutput.element.pause();
+      this.reverseOutput.element.srcObject = null;
+      this.reverseOutput = null;
     }
+    this.mixer?.disconnect();
+    this.mixer = null;
+    this.outputBus = null;
+    this.outputAnalyser = null;
+
 
     if (this.outputContext) {
       await this.outputContext.close();
       this.outputContext = null;
     }
     
-    if (this.currentSession) {
-        this.currentSession.then(session => {
-            if (typeof session.close === 'function') {
-                session.close();
-            }
-        }).catch(() => {});
-        this.currentSession = null;
+    // New output context starts its clock at 0 again
+    this.nextStartTime = 0;
+    this.scheduledSources.clear();
+    this.pendingDecodes = [];
+    this.crossfadeGeneration = null;
+    this.decodeEpoch++;
+
+    if (wasActive) {
+      this.transition(finalState);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { LiveConnectConfig, Modality } from '@google/genai';
+import { Glossary, LanguagePair, VoiceSettings } from '../types';
+import { speechLanguageCode } from './languageRegistry';
+import { getSystemInstruction } from './promptFactory';
+import { DEFAULT_VOICE_SETTINGS } from './voices';
+
+export interface InterpreterSessionOptions {
+  pair: LanguagePair;
+  glossary?: Glossary;
+  voice?: VoiceSettings;
+  resumptionHandle?: string | null;
+  manualActivity?: boolean; // turns are marked with activityStart / activityEnd
+}
+
+// Reconnect policy: exponential backoff, capped
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+export const RECONNECT_MAX_ATTEMPTS = 8;
+// After this many failed attempts the resumption handle is assumed stale
+export const RESUME_HANDLE_MAX_ATTEMPTS = 2;
+
+export function reconnectDelayMs(attempt: number): number {
+  return Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+}
+
+// Live session setup for an interpreter, shared by the browser client and the CLI
+export function buildLiveConnectConfig(options: InterpreterSessionOptions): LiveConnectConfig {
+  return {
+    responseModalities: [Modality.AUDIO],
+    // FIXED: Added speechConfig to prevent inference errors
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voice?.voiceName ?? DEFAULT_VOICE_SETTINGS.voiceName } },
+      // One output language: pin the speech to it. Two-way speaks both.
+      languageCode: options.pair.twoWay ? undefined : speechLanguageCode(options.pair.target),
+    },
+    systemInstruction: getSystemInstruction(options.pair, { glossary: options.glossary, voice: options.voice }),
+    // Captions for both sides of the interpretation
+    inputAudioTranscription: {},
+    outputAudioTranscription: {},
+    // Server sends resumable handles so a dropped socket can continue the same conversation
+    sessionResumption: { handle: options.resumptionHandle ?? undefined },
+    // With the local VAD we mark turns ourselves via activityStart / activityEnd
+    realtimeInputConfig: options.manualActivity ? { automaticActivityDetection: { disabled: true } } : undefined,
+  };
+}
@@ -0,0 +1,221 @@
+import { LiveConnectConfig, LiveSendRealtimeInputParameters, LiveServerMessage } from '@google/genai';
+import { SessionError } from '../types';
+import { CredentialsError } from './credentials';
+import { RECONNECT_MAX_ATTEMPTS, reconnectDelayMs, RESUME_HANDLE_MAX_ATTEMPTS } from './liveConfig';
+import { connectionError, isFatal } from './sessionState';
+import { LIVE_MODEL, LiveSession, LiveTransport } from './transport';
+
+// Input kept while the socket is down (~10s of 2048-sample chunks at 16 kHz)
+const MAX_PENDING_INPUTS = 80;
+
+export interface LiveConnectionCallbacks {
+  onOpen: () => void; // socket is up; call flushPending() to send what was kept
+  // Every message, also of a replaced socket that is still finishing its turn
+  onMessage: (message: LiveServerMessage, generation: number, current: boolean) => void;
+  onReconnecting: (lost: boolean) => void; // lost: the socket dropped, else a goAway handover
+  onFail: (error: SessionError) => void;   // unrecoverable, the connection is closed already
+  onInputSent?: (input: LiveSendRealtimeInputParameters) => void;
+  onInputDropped?: () => void;
+  onSendFailure?: () => void;
+}
+
+// The Live session without any audio: one current socket, resumed via the
+// latest handle with capped backoff when it drops, handed over early on
+// goAway, input kept while it is down. LiveClient and the CLI both run on it.
+export class LiveConnection {
+  private active = false;
+  private currentSession: Promise<LiveSession> | null = null;
+  private generation = 0; // bumps on every new socket, stale callbacks are ignored
+  private open = false;
+  private resumptionHandle: string | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingInputs: LiveSendRealtimeInputParameters[] = [];
+
+  // `buildConfig` is asked for every new socket, so config changes apply on the next one
+  constructor(
+    private transport: LiveTransport,
+    private buildConfig: (resumptionHandle: string | null) => LiveConnectConfig,
+    private callbacks: LiveConnectionCallbacks,
+  ) {}
+
+  get isOpen(): boolean {
+    return this.open;
+  }
+
+  // Generation of the current socket, as passed to onMessage
+  get sessionGeneration(): number {
+    return this.generation;
+  }
+
+  start() {
+    this.active = true;
+    this.currentSession = this.openSession();
+  }
+
+  // New setup (language switch): a fresh session without the old handle,
+  // the old socket is closed once the new one is up. Returns the new
+  // generation, or null when a pending reconnect picks up the change.
+  restart(): number | null {
+    if (!this.active) return null;
+    this.resumptionHandle = null;
+    this.reconnectAttempts = 0;
+    if (this.reconnectTimer) return null;
+    this.handOver();
+    return this.generation;
+  }
+
+  send(input: LiveSendRealtimeInputParameters) {
+    if (!this.open || !this.currentSession) {
+      // Socket is down: keep the most recent input for when it comes back
+      this.pendingInputs.push(input);
+      if (this.pendingInputs.length > MAX_PENDING_INPUTS) {
+        this.pendingInputs.shift();
+        this.callbacks.onInputDropped?.();
+      }
+      return;
+    }
+    this.currentSession.then(session => {
+      try {
+        session.sendRealtimeInput(input);
+        this.callbacks.onInputSent?.(input);
+      } catch (e) {
+        this.callbacks.onSendFailure?.();
+        console.warn('Gemini Live send failed', e);
+      }
+    }).catch(() => this.callbacks.onSendFailure?.());
+  }
+
+  // `inTurn`: a fresh socket knows nothing about the turn in progress, so it is started again
+  flushPending(inTurn = false) {
+    if (inTurn && !this.pendingInputs[0]?.activityStart) {
+      this.pendingInputs.unshift({ activityStart: {} });
+    }
+    const inputs = this.pendingInputs;
+    this.pendingInputs = [];
+    inputs.forEach(input => this.send(input));
+  }
+
+  close() {
+    this.active = false;
+    this.open = false;
+    this.generation++; // ignore callbacks of the socket we are about to close
+    this.pendingInputs = [];
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.currentSession?.then(session => session.close()).catch(() => {});
+    this.currentSession = null;
+  }
+
+  private openSession(): Promise<LiveSession> {
+    const generation = ++this.generation;
+    this.open = false;
+
+    const session = this.transport.connect({
+      model: LIVE_MODEL,
+      config: this.buildConfig(this.resumptionHandle),
+      callbacks: {
+        onopen: () => {
+          if (generation !== this.generation) return;
+          console.log('Gemini Live Connected');
+          this.open = true;
+          this.callbacks.onOpen();
+        },
+        onmessage: (message) => this.handleMessage(message, generation),
+        onclose: (e) => {
+          if (generation !== this.generation) return;
+          console.log('Gemini Live Closed', e?.code, e?.reason);
+          this.handleError(connectionError(e?.reason, e?.code));
+        },
+        onerror: (e) => {
+          console.error('Gemini Live Error', e);
+        },
+      },
+    });
+
+    session.catch((e) => {
+      if (generation !== this.generation) return;
+      console.error('Gemini Live connect failed', e);
+      if (e instanceof CredentialsError && !e.retryable) {
+        this.fail(e.error);
+        return;
+      }
+      this.handleError(e instanceof CredentialsError ? e.error : connectionError(e instanceof Error ? e.message : String(e)));
+    });
+
+    return session;
+  }
+
+  // A replaced socket (goAway handover, language switch) only finishes its
+  // audio, captions and usage; session control is the current socket's
+  private handleMessage(message: LiveServerMessage, generation: number) {
+    const current = this.active && generation === this.generation;
+    if (current && message.setupComplete) {
+      // Only a completed setup counts as a successful reconnect
+      this.reconnectAttempts = 0;
+    }
+    if (current && message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+      this.resumptionHandle = message.sessionResumptionUpdate.newHandle;
+    }
+    if (current && message.goAway) {
+      console.log('Gemini Live GoAway, time left:', message.goAway.timeLeft);
+      this.callbacks.onReconnecting(false);
+      this.handOver();
+    }
+    this.callbacks.onMessage(message, generation, current);
+  }
+
+  private handleError(error: SessionError) {
+    if (isFatal(error)) {
+      this.fail(error);
+    } else {
+      this.handleSessionLost(error);
+    }
+  }
+
+  // `reason`: why the socket went away, reported if reconnecting gives up
+  private handleSessionLost(reason: SessionError) {
+    this.open = false;
+    if (!this.active) return;
+
+    if (this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
+      console.error('Gemini Live: giving up after', this.reconnectAttempts, 'reconnect attempts');
+      this.fail(reason);
+      return;
+    }
+
+    if (this.reconnectAttempts >= RESUME_HANDLE_MAX_ATTEMPTS) {
+      // Handle probably expired: fall back to a fresh session
+      this.resumptionHandle = null;
+    }
+
+    const delay = reconnectDelayMs(this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.callbacks.onReconnecting(true);
+    this.transport.prepare?.();
+    console.log(`Gemini Live: reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.active) return;
+      this.currentSession = this.openSession();
+    }, delay);
+  }
+
+  // Open the replacement right away (resuming via the latest handle) and
+  // close the old socket once it is up, or once it failed
+  private handOver() {
+    const previous = this.currentSession;
+    this.currentSession = this.openSession();
+    const closePrevious = () => previous?.then(s => s.close()).catch(() => {});
+    this.currentSession.then(closePrevious, closePrevious);
+  }
+
+  private fail(error: SessionError) {
+    if (!this.active) return;
+    this.close();
+    this.callbacks.onFail(error);
+  }
+}
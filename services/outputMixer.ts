@@ -0,0 +1,95 @@
+import { MixConfig } from '../types';
+
+export const DEFAULT_MIX_CONFIG: MixConfig = {
+  originalEnabled: false,
+  originalLevel: 0.5,
+  duckLevel: 0.25,
+  interpretationLevel: 1,
+  stereoSplit: false,
+};
+
+// Ducking envelope (setTargetAtTime time constants) and how long the original
+// stays ducked after a chunk so short gaps between chunks don't pump
+const DUCK_ATTACK = 0.05;
+const DUCK_RELEASE = 0.3;
+const DUCK_HOLD_SECONDS = 0.4;
+
+// Broadcast-style mix of the original speaker under the interpretation.
+//
+//   mic stream -> original -> duck -> originalPan ----\
+//                                                      +-> destination (output bus)
+//   chunks -> interpretation -> interpretationPan ----/
+//
+// Ducking follows the playback timeline: queueAudio tells us when translated
+// audio is scheduled, so the envelope is sample accurate and needs no metering.
+export class OutputMixer {
+  readonly interpretationInput: GainNode; // translated chunks connect here
+
+  private original: GainNode;
+  private duck: GainNode;
+  private originalPan: StereoPannerNode;
+  private interpretationPan: StereoPannerNode;
+  private originalSource: MediaStreamAudioSourceNode | null = null;
+
+  constructor(private context: AudioContext, destination: AudioNode, private config: MixConfig) {
+    this.original = context.createGain();
+    this.duck = context.createGain();
+    this.originalPan = context.createStereoPanner();
+    this.original.connect(this.duck).connect(this.originalPan).connect(destination);
+
+    this.interpretationInput = context.createGain();
+    this.interpretationPan = context.createStereoPanner();
+    this.interpretationInput.connect(this.interpretationPan).connect(destination);
+
+    this.applyConfig();
+  }
+
+  // Mic stream from the input side; a stream can feed nodes of several contexts
+  setOriginal(stream: MediaStream) {
+    this.originalSource?.disconnect();
+    this.originalSource = this.context.createMediaStreamSource(stream);
+    this.originalSource.connect(this.original);
+  }
+
+  updateConfig(config: MixConfig) {
+    this.config = config;
+    this.applyConfig();
+  }
+
+  // Translated audio plays from `start` to `end` (output context time)
+  duckDuring(start: number, end: number) {
+    // Split feeds are separate channels, nothing to make room for
+    if (this.config.stereoSplit) return;
+    const gain = this.duck.gain;
+    gain.cancelScheduledValues(start);
+    gain.setTargetAtTime(this.config.duckLevel, start, DUCK_ATTACK);
+    gain.setTargetAtTime(1, end + DUCK_HOLD_SECONDS, DUCK_RELEASE);
+  }
+
+  // Scheduled translation was thrown away (barge-in flush)
+  release(at: number) {
+    this.duck.gain.cancelScheduledValues(at);
+    this.duck.gain.setTargetAtTime(1, at, DUCK_RELEASE);
+  }
+
+  disconnect() {
+    this.originalSource?.disconnect();
+    this.originalSource = null;
+    this.original.disconnect();
+    this.duck.disconnect();
+    this.originalPan.disconnect();
+    this.interpretationInput.disconnect();
+    this.interpretationPan.disconnect();
+  }
+
+  private applyConfig() {
+    const now = this.context.currentTime;
+    const { originalEnabled, originalLevel, interpretationLevel, stereoSplit } = this.config;
+    // Short ramps so dragging a slider doesn't click
+    this.original.gain.setTargetAtTime(originalEnabled ? originalLevel : 0, now, 0.02);
+    this.interpretationInput.gain.setTargetAtTime(interpretationLevel, now, 0.02);
+    this.originalPan.pan.value = stereoSplit ? -1 : 0;
+    this.interpretationPan.pan.value = stereoSplit ? 1 : 0;
+    if (stereoSplit) this.release(now);
+  }
+}
@@ -0,0 +1,95 @@
+import { PlaybackConfig } from '../types';
+
+export const DEFAULT_PLAYBACK_CONFIG: PlaybackConfig = {
+  enabled: false,
+  maxLagMs: 3000,
+  catchUp: 'speedup',
+};
+
+// Fastest we play while catching up (pitch rises with it, keep it modest)
+const MAX_PLAYBACK_RATE = 1.3;
+// Silence detection for trimming: 10 ms frames below this level...
+const SILENCE_FRAME_MS = 10;
+const SILENCE_DB = -50;
+// ...and pauses are shortened to this, not removed, so words don't run together
+const KEEP_SILENCE_MS = 80;
+
+export interface PreparedChunk {
+  data: Float32Array;
+  playbackRate: number;
+}
+
+// Keeps the translation within `maxLagMs` of real time. queueAudio asks it how
+// to play each decoded chunk given the current backlog (audio scheduled but
+// not yet heard); the 'drop' strategy is applied by the client to the queue.
+export class PlaybackScheduler {
+  constructor(private config: PlaybackConfig, private sampleRate: number) {}
+
+  updateConfig(config: PlaybackConfig) {
+    this.config = config;
+  }
+
+  get strategy() {
+    return this.config.catchUp;
+  }
+
+  isOverLimit(backlogSeconds: number): boolean {
+    return this.config.enabled && backlogSeconds * 1000 > this.config.maxLagMs;
+  }
+
+  prepare(data: Float32Array, backlogSeconds: number): PreparedChunk {
+    if (!this.isOverLimit(backlogSeconds)) return { data, playbackRate: 1 };
+
+    if (this.config.catchUp === 'speedup') {
+      // Proportional: 1.5x the allowed lag plays ~1.5x fast, capped
+      const ratio = (backlogSeconds * 1000) / this.config.maxLagMs;
+      return { data, playbackRate: Math.min(MAX_PLAYBACK_RATE, ratio) };
+    }
+    if (this.config.catchUp === 'trim') {
+      return { data: this.trimSilence(data), playbackRate: 1 };
+    }
+    return { data, playbackRate: 1 };
+  }
+
+  // Number of oldest queued chunks to drop so the backlog fits the limit again
+  dropCount(queuedDurations: number[], backlogSeconds: number): number {
+    if (!this.isOverLimit(backlogSeconds)) return 0;
+    let excess = backlogSeconds - this.config.maxLagMs / 1000;
+    let count = 0;
+    // Always keep the newest chunk, it is what the speaker just said
+    while (excess > 0 && count < queuedDurations.length - 1) {
+      excess -= queuedDurations[count];
+      count++;
+    }
+    return count;
+  }
+
+  private trimSilence(data: Float32Array): Float32Array {
+    const frame = Math.round((SILENCE_FRAME_MS / 1000) * this.sampleRate);
+    const keepFrames = Math.round(KEEP_SILENCE_MS / SILENCE_FRAME_MS);
+    const threshold = Math.pow(10, SILENCE_DB / 20);
+    const kept: Float32Array[] = [];
+    let silentRun = 0;
+    let length = 0;
+
+    for (let start = 0; start < data.length; start += frame) {
+      const slice = data.subarray(start, Math.min(data.length, start + frame));
+      let sum = 0;
+      for (let i = 0; i < slice.length; i++) sum += slice[i] * slice[i];
+      const silent = Math.sqrt(sum / slice.length) < threshold;
+      silentRun = silent ? silentRun + 1 : 0;
+      if (silentRun > keepFrames) continue;
+      kept.push(slice);
+      length += slice.length;
+    }
+
+    if (length === data.length) return data;
+    const out = new Float32Array(length);
+    let offset = 0;
+    for (const slice of kept) {
+      out.set(slice, offset);
+      offset += slice.length;
+    }
+    return out;
+  }
+}
@@ -1,39 +1,90 @@
-import { LanguageMode } from '../types';
-
-export function getSystemInstruction(mode: LanguageMode, customSource?: string, customTarget?: string): string {
-  let srcLang = "Auto Detect";
-  let tgtLang = "German";
-
-  // Determine languages based on mode
-  switch (mode) {
-    case LanguageMode.AUTO_TO_GERMAN:
-      srcLang = "Auto Detect";
-      tgtLang = "German";
-      break;
-    case LanguageMode.EN_TO_DE:
-      srcLang = "English";
-      tgtLang = "German";
-      break;
-    case LanguageMode.DE_TO_EN:
-      srcLang = "German";
-      tgtLang = "English";
-      break;
-    case LanguageMode.DE_TO_THAI:
-      srcLang = "German";
-      tgtLang = "Thai";
-      break;
-    case LanguageMode.THAI_TO_DE:
-      srcLang = "Thai";
-      tgtLang = "German";
-      break;
-    case LanguageMode.KOR_TO_DE:
-      srcLang = "Korean";
-      tgtLang = "German";
-      break;
-    case LanguageMode.CUSTOM:
-      srcLang = customSource || "Auto Detect";
-      tgtLang = customTarget || "English";
-      break;
+import { Glossary, LanguagePair, VoiceSettings } from '../types';
+import { getLanguage, languageName } from './languageRegistry';
+
+// Style hints of the languages that are spoken *to* the listener
+function getLanguageHints(pair: LanguagePair): string {
+  const targets = pair.twoWay ? [pair.target, pair.source] : [pair.target];
+  const hints = targets
+    .map(code => getLanguage(code))
+    .filter(l => l?.promptHint)
+    .map(l => `- When speaking ${l!.name}: ${l!.promptHint}`);
+  return hints.length > 0 ? `\n\nLANGUAGE NOTES:\n${hints.join('\n')}` : '';
+}
+
+export interface PromptOptions {
+  glossary?: Glossary;
+  voice?: VoiceSettings;
+}
+
+const RATE_HINTS = {
+  slow: 'Speak at a calm, slightly slower pace with clear articulation.',
+  fast: 'Speak briskly; keep up with fast speakers rather than falling behind.',
+};
+
+const REGISTER_HINTS = {
+  formal: 'Use a formal register and polite forms of address.',
+  informal: 'Use a relaxed, informal register (familiar forms of address).',
+};
+
+// Delivery of the interpretation. Comes after the language notes so an explicit
+// register choice wins over a language's default.
+function getStyleSection(voice: VoiceSettings | undefined): string {
+  if (!voice) return '';
+  const lines: string[] = [];
+  if (voice.rate !== 'normal') lines.push(`- ${RATE_HINTS[voice.rate]}`);
+  if (voice.register !== 'auto') lines.push(`- ${REGISTER_HINTS[voice.register]}`);
+  return lines.length > 0 ? `\n\nSPEAKING STYLE:\n${lines.join('\n')}` : '';
+}
+
+// Terminology section appended to the instruction. In conversation mode the
+// terms apply in both directions.
+function getGlossarySection(glossary: Glossary | undefined, twoWay: boolean): string {
+  if (!glossary) return '';
+  const entries = glossary.entries.filter(e => e.source.trim() && e.target.trim());
+  const keep = glossary.doNotTranslate.map(t => t.trim()).filter(Boolean);
+  if (entries.length === 0 && keep.length === 0) return '';
+
+  const lines: string[] = [];
+  if (entries.length > 0) {
+    lines.push(`MANDATORY TERMINOLOGY (${languageName(glossary.source)} ${twoWay ? '<->' : '->'} ${languageName(glossary.target)}). Always use exactly these translations${twoWay ? ' (in both directions)' : ''}:`);
+    for (const e of entries) {
+      lines.push(`- "${e.source}" ${twoWay ? '<->' : '->'} "${e.target}"${e.note ? ` (${e.note})` : ''}`);
+    }
+  }
+  if (keep.length > 0) {
+    if (lines.length > 0) lines.push('');
+    lines.push('DO NOT TRANSLATE. Keep these names exactly as spoken:');
+    lines.push(keep.map(t => `"${t}"`).join(', '));
+  }
+  return `\n\n${lines.join('\n')}`;
+}
+
+// Throwaway session that just lets the chosen voice say one sentence
+export function getVoicePreviewInstruction(languageCode: string, voice: VoiceSettings): string {
+  return `SYSTEM: You are the voice of a simultaneous interpreter. As soon as you receive any input, say ONE short, friendly sentence in ${languageName(languageCode)} introducing yourself as the interpreter for today's session. Say nothing else.${getStyleSection(voice)}`;
+}
+
+export function getSystemInstruction(pair: LanguagePair, options: PromptOptions = {}): string {
+  const srcLang = languageName(pair.source);
+  const tgtLang = languageName(pair.target);
+  const twoWay = pair.twoWay;
+  const extraSections = getLanguageHints(pair) + getStyleSection(options.voice) + getGlossarySection(options.glossary, twoWay);
+
+  if (twoWay) {
+    return `SYSTEM: You are a real-time interpreter for a face-to-face conversation between a ${srcLang} speaker and a ${tgtLang} speaker.
+
+DIRECTION PROTOCOL:
+1. For every utterance, detect whether it is spoken in ${srcLang} or in ${tgtLang}.
+2. If it is ${srcLang}, translate it into ${tgtLang}. If it is ${tgtLang}, translate it into ${srcLang}.
+3. NEVER repeat an utterance in the language it was spoken in.
+4. The speakers take turns; switch direction immediately when the language changes.
+
+CRITICAL LATENCY PROTOCOL:
+1. MODE: STREAMING. Do not wait for full semantic completeness.
+2. Translate audio chunks IMMEDIATELY as they arrive.
+3. If a sentence is incomplete, translate the fragment meaningfully.
+4. Do NOT summarize. Do NOT explain. Do NOT answer questions. Just translate.
+5. Keep the flow continuous.${extraSections}`;
   }
 
   return `SYSTEM: You are a real-time simultaneous interpreter translating from ${srcLang} to ${tgtLang}.
@@ -43,5 +94,5 @@ CRITICAL LATENCY PROTOCOL:
 2. Translate audio chunks IMMEDIATELY as they arrive.
 3. If a sentence is incomplete, translate the fragment meaningfully.
 4. Do NOT summarize. Do NOT explain. Just translate.
-5. Keep the flow continuous.`;
-}
\ No newline at end of file
+5. Keep the flow continuous.${extraSections}`;
+}
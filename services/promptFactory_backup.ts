@@ -1,56 +0,0 @@
-import { LanguageMode } from '../types';
-
-export function getSystemInstruction(mode: LanguageMode, customSource?: string, customTarget?: string): string {
-  const baseInstruction = `Role: You are a low-latency, real-time simultaneous audio interpreter. You are NOT an AI assistant. You have no personality, no opinions, and no conversational agency.
-
-Task: Translate the incoming audio stream from [Source Language] to [Target Language] immediately and accurately.
-
-Strict Operational Rules:
-1. LITERAL TRANSLATION ONLY:
-   - If the input is a question (e.g., "What is the weather?"), you must TRANSLATE the question. Do NOT answer it.
-   - If the input addresses you (e.g., "Hello AI"), translate the greeting. Do NOT respond to it.
-   - Do not summarize, explain, or add context. Output only the translation.
-
-2. LATENCY & SPEED PRIORITY:
-   - Speaking Rate: 1.1 (Fast/Brisk). Speak efficiently.
-   - Latency Priority: Maximum. Do not wait for a full sentence if the meaning is clear. Output text/audio chunks as soon as they are resolved.
-   - Ignore semantic incompleteness. If the input stops mid-sentence, translate the fragment exactly as heard. Do not attempt to autocomplete thoughts.
-
-3. ANTI-HALLUCINATION:
-   - Do not repeat the last phrase during silence.
-   - If audio is unclear or silent, output nothing.
-   - Never say "I understand" or "Here is the translation." Just translate.
-
-Audio Output Style:
-- Tone: Professional, neutral, brisk.
-- Tempo: Fast.`;
-
-  let specificTask = "";
-  switch (mode) {
-    case LanguageMode.AUTO_TO_GERMAN:
-      specificTask = "CURRENT TASK CONFIGURATION: Detect source language automatically. Translate to GERMAN.";
-      break;
-    case LanguageMode.EN_TO_DE:
-      specificTask = "CURRENT TASK CONFIGURATION: Source is ENGLISH. Translate to GERMAN.";
-      break;
-    case LanguageMode.DE_TO_EN:
-      specificTask = "CURRENT TASK CONFIGURATION: Source is GERMAN. Translate to ENGLISH.";
-      break;
-    case LanguageMode.DE_TO_THAI:
-      specificTask = "CURRENT TASK CONFIGURATION: Source is GERMAN. Translate to THAI.";
-      break;
-    case LanguageMode.THAI_TO_DE:
-      specificTask = "CURRENT TASK CONFIGURATION: Source is THAI. Translate to GERMAN.";
-      break;
-    case LanguageMode.KOR_TO_DE:
-      specificTask = "CURRENT TASK CONFIGURATION: Source is KOREAN. Translate to GERMAN.";
-      break;
-    case LanguageMode.CUSTOM:
-      const src = customSource || "Detected Language";
-      const tgt = customTarget || "English";
-      specificTask = `CURRENT TASK CONFIGURATION: Source is ${src}. Translate to ${tgt}.`;
-      break;
-  }
-
-  return `${baseInstruction}\n\n${specificTask}`;
-}
\ No newline at end of file
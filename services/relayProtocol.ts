@@ -0,0 +1,16 @@
+// Wire format between the interpreter page, the relay server
+// (server/relayServer.ts) and listener pages. JSON text frames.
+//
+//   interpreter -> ws://host:8790/publish?lang=de -> relay -> ws://host:8790/listen?lang=de -> listeners
+
+export const RELAY_DEFAULT_PORT = 8790;
+
+export type RelayMessage =
+  | { type: 'audio'; data: string; sampleRate: number } // base64 PCM16 mono
+  | { type: 'caption'; id: number; text: string; final: boolean }
+  | { type: 'channels'; languages: string[] };            // relay -> listeners only
+
+// Same host as the page by default, so phones on the LAN find it
+export function defaultRelayUrl(): string {
+  return `ws://${location.hostname || 'localhost'}:${RELAY_DEFAULT_PORT}`;
+}
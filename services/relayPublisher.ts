@@ -0,0 +1,64 @@
+import { TranscriptTurn } from '../types';
+import { pcmToGeminiBlob } from '../utils/audioUtils';
+import { RelayMessage } from './relayProtocol';
+
+// Reconnect policy, same shape as the Live session's
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+// Don't queue audio for a relay that isn't there; listeners want it live
+const MAX_BUFFERED_BYTES = 512 * 1024;
+
+// Publishes one language's interpretation to the LAN relay. Best effort:
+// when the relay is down the interpretation itself carries on.
+export class RelayPublisher {
+  private ws: WebSocket | null = null;
+  private closed = false;
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastCaption = '';
+
+  constructor(private url: string, private language: string, private token: string) {
+    this.open();
+  }
+
+  sendAudio(data: Float32Array, sampleRate: number) {
+    this.send({ type: 'audio', data: pcmToGeminiBlob(data, sampleRate).data!, sampleRate });
+  }
+
+  // Latest turn of the transcript; unchanged text isn't resent
+  sendCaptions(turns: TranscriptTurn[]) {
+    const turn = turns[turns.length - 1];
+    if (!turn) return;
+    const key = `${turn.id}:${turn.complete}:${turn.target}`;
+    if (key === this.lastCaption) return;
+    this.lastCaption = key;
+    this.send({ type: 'caption', id: turn.id, text: turn.target.trim(), final: turn.complete });
+  }
+
+  close() {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.ws?.close();
+    this.ws = null;
+  }
+
+  private open() {
+    const ws = new WebSocket(`${this.url}/publish?lang=${encodeURIComponent(this.language)}&token=${encodeURIComponent(this.token)}`);
+    ws.onopen = () => { this.attempts = 0; };
+    ws.onclose = () => {
+      if (this.closed) return;
+      const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.attempts++);
+      this.reconnectTimer = setTimeout(() => this.open(), delay);
+    };
+    ws.onerror = () => {
+      if (this.attempts === 0) console.warn(`Relay ${this.url} unreachable`);
+    };
+    this.ws = ws;
+  }
+
+  private send(message: RelayMessage) {
+    const ws = this.ws;
+    if (!ws || ws.readyState !== WebSocket.OPEN || ws.bufferedAmount > MAX_BUFFERED_BYTES) return;
+    ws.send(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,180 @@
+import { BargeInPolicy, LanguagePair, MetricSummary, PlaybackConfig, SessionMetricsSnapshot, VoiceSettings } from '../types';
+
+// Percentiles are computed over this many recent samples per series
+const MAX_RECENT_SAMPLES = 1000;
+// Window for the mic chunk send rate
+const RATE_WINDOW_MS = 5000;
+
+// What the session was run with, so exported metrics can be compared
+export interface SessionMetricsInfo {
+  model: string;
+  pair: LanguagePair;
+  voice?: VoiceSettings;
+  vad: boolean;
+  pushToTalk: boolean;
+  bargeIn: BargeInPolicy;
+  playback: PlaybackConfig;
+}
+
+// Network Information API (Chromium only, not in the DOM typings)
+interface NetworkInformation {
+  effectiveType?: string;
+  downlink?: number; // Mbit/s
+  rtt?: number;      // ms
+}
+
+interface NavigatorWithConnection extends Navigator {
+  connection?: NetworkInformation;
+}
+
+// One answered turn, kept in full for the export
+interface TurnLatency {
+  at: number;          // seconds since session start
+  responseMs: number;
+  heardMs?: number;
+}
+
+// Running totals plus a bounded window of recent values
+class Series {
+  private count = 0;
+  private sum = 0;
+  private max = 0;
+  private last = 0;
+  private recent: number[] = [];
+
+  add(value: number) {
+    this.count++;
+    this.sum += value;
+    this.max = Math.max(this.max, value);
+    this.last = value;
+    this.recent.push(value);
+    if (this.recent.length > MAX_RECENT_SAMPLES) this.recent.shift();
+  }
+
+  summary(): MetricSummary {
+    const sorted = [...this.recent].sort((a, b) => a - b);
+    const percentile = (p: number) => sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] : 0;
+    return {
+      count: this.count,
+      last: this.last,
+      avg: this.count ? this.sum / this.count : 0,
+      p50: percentile(0.5),
+      p95: percentile(0.95),
+      max: this.max,
+    };
+  }
+}
+
+// Latency and quality instrumentation for one LiveClient session. All
+// timings use performance.now(); the export is plain JSON so runs on
+// different networks, prompts and models can be compared side by side.
+export class SessionMetrics {
+  readonly startedAt = Date.now(); // epoch ms
+  private readonly startedPerf = performance.now();
+  private endedPerf: number | null = null;
+
+  private chunksSent = 0;
+  private recentSends: number[] = [];
+  private inputDropped = 0;
+  private sendFailures = 0;
+  private reconnects = 0;
+
+  private response = new Series();
+  private heard = new Series();
+  private decode = new Series();
+  private backlog = new Series();
+  private turns: TurnLatency[] = [];
+
+  private speechEndedAt: number | null = null;
+  private awaitingHeard: { turn: TurnLatency; speechEndedAt: number } | null = null;
+
+  constructor(readonly info: SessionMetricsInfo) {}
+
+  recordChunkSent(at: number = performance.now()) {
+    this.chunksSent++;
+    this.recentSends.push(at);
+    while (this.recentSends.length && this.recentSends[0] < at - RATE_WINDOW_MS) this.recentSends.shift();
+  }
+
+  recordInputDropped() {
+    this.inputDropped++;
+  }
+
+  recordSendFailure() {
+    this.sendFailures++;
+  }
+
+  recordReconnect() {
+    this.reconnects++;
+  }
+
+  // `at` lets detectors with a hangover report when the speech really stopped
+  markSpeechEnd(at: number = performance.now()) {
+    this.speechEndedAt = at;
+  }
+
+  // First model audio after the speaker stopped closes the turn's measurement
+  recordAudioReceived(at: number = performance.now()) {
+    if (this.speechEndedAt === null) return;
+    const turn: TurnLatency = {
+      at: (at - this.startedPerf) / 1000,
+      responseMs: at - this.speechEndedAt,
+    };
+    this.response.add(turn.responseMs);
+    this.turns.push(turn);
+    this.awaitingHeard = { turn, speechEndedAt: this.speechEndedAt };
+    this.speechEndedAt = null;
+  }
+
+  recordDecode(ms: number) {
+    this.decode.add(ms);
+  }
+
+  // Called per decoded chunk with the translation already queued ahead of it
+  recordScheduled(backlogSeconds: number, at: number = performance.now()) {
+    this.backlog.add(backlogSeconds);
+    if (!this.awaitingHeard) return;
+    const { turn, speechEndedAt } = this.awaitingHeard;
+    turn.heardMs = at + backlogSeconds * 1000 - speechEndedAt;
+    this.heard.add(turn.heardMs);
+    this.awaitingHeard = null;
+  }
+
+  // Session over: freeze the duration and rate for the export
+  finish() {
+    this.endedPerf ??= performance.now();
+  }
+
+  snapshot(): SessionMetricsSnapshot {
+    const now = this.endedPerf ?? performance.now();
+    const windowStart = Math.max(this.startedPerf, now - RATE_WINDOW_MS);
+    const recent = this.recentSends.filter(t => t >= now - RATE_WINDOW_MS).length;
+    return {
+      startedAt: this.startedAt,
+      durationSeconds: (now - this.startedPerf) / 1000,
+      chunksSent: this.chunksSent,
+      chunkRate: now > windowStart ? recent / ((now - windowStart) / 1000) : 0,
+      inputDropped: this.inputDropped,
+      sendFailures: this.sendFailures,
+      reconnects: this.reconnects,
+      responseLatencyMs: this.response.summary(),
+      heardLatencyMs: this.heard.summary(),
+      decodeMs: this.decode.summary(),
+      backlogSeconds: this.backlog.summary(),
+    };
+  }
+
+  toJson(): string {
+    const { connection } = navigator as NavigatorWithConnection;
+    return JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      session: {
+        ...this.info,
+        userAgent: navigator.userAgent,
+        network: connection ? { type: connection.effectiveType, downlinkMbps: connection.downlink, rttMs: connection.rtt } : undefined,
+      },
+      summary: this.snapshot(),
+      turns: this.turns,
+    }, null, 2);
+  }
+}
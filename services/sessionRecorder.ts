@@ -0,0 +1,99 @@
+import { encodeWav, floatToInt16, resampleLinear } from '../utils/audioUtils';
+
+export type RecordingTrack = 'original' | 'interpretation';
+
+interface RecordedChunk {
+  offset: number; // position in samples (of its track's rate) from the recording start
+  data: Int16Array; // 16-bit like the wire format, half the memory of Float32
+}
+
+const INPUT_RATE = 16000;
+const OUTPUT_RATE = 24000;
+
+// Captures both sides of a session so they can be exported after stop().
+// Mic audio is kept only as far as it was sent to the model (muted, gated or
+// push-to-talk released input stays silent) but every buffer moves the clock;
+// translated audio is placed at the time it was scheduled on the output
+// context, so gaps are preserved.
+export class SessionRecorder {
+  readonly startedAt: number = Date.now(); // epoch ms, used to align captions
+  private outputOrigin = 0;                 // outputContext.currentTime at start
+  private inputChunks: RecordedChunk[] = [];
+  private inputLength = 0;
+  private outputChunks: RecordedChunk[] = [];
+  private outputLength = 0;
+
+  constructor(outputContextTime: number) {
+    this.outputOrigin = outputContextTime;
+  }
+
+  // `length`: samples of the buffer just captured; `sent`: what went to the
+  // model with it, in order, ending with that buffer (VAD pre-roll comes first)
+  addInput(length: number, sent: Float32Array[]) {
+    this.inputLength += length;
+    let end = this.inputLength;
+    for (let i = sent.length - 1; i >= 0 && end > 0; i--) {
+      const offset = Math.max(0, end - sent[i].length);
+      this.inputChunks.push({ offset, data: floatToInt16(sent[i].subarray(sent[i].length - (end - offset))) });
+      end = offset;
+    }
+  }
+
+  addOutput(data: Float32Array, scheduledAt: number) {
+    const offset = Math.max(0, Math.round((scheduledAt - this.outputOrigin) * OUTPUT_RATE));
+    this.outputChunks.push({ offset, data: floatToInt16(data) });
+    this.outputLength = Math.max(this.outputLength, offset + data.length);
+  }
+
+  // Flushed playback never reached the speakers, drop it from the recording
+  discardOutputAfter(contextTime: number) {
+    const cut = Math.max(0, Math.round((contextTime - this.outputOrigin) * OUTPUT_RATE));
+    this.outputChunks = this.outputChunks
+      .filter(c => c.offset < cut)
+      .map(c => (c.offset + c.data.length > cut ? { offset: c.offset, data: c.data.subarray(0, cut - c.offset) } : c));
+    this.outputLength = this.outputChunks.reduce((max, c) => Math.max(max, c.offset + c.data.length), 0);
+  }
+
+  get durationSeconds(): number {
+    return Math.max(this.inputLength / INPUT_RATE, this.outputLength / OUTPUT_RATE);
+  }
+
+  get isEmpty(): boolean {
+    return this.inputLength === 0 && this.outputLength === 0;
+  }
+
+  // Original left, interpretation right
+  toStereoWav(): Blob {
+    const [original, interpretation] = this.renderTracks();
+    return new Blob([encodeWav([original, interpretation], OUTPUT_RATE)], { type: 'audio/wav' });
+  }
+
+  toTrackWav(track: RecordingTrack): Blob {
+    const [original, interpretation] = this.renderTracks();
+    const data = track === 'original' ? original : interpretation;
+    return new Blob([encodeWav([data], OUTPUT_RATE)], { type: 'audio/wav' });
+  }
+
+  // Renders both tracks at the output rate with identical length
+  private renderTracks(): [Float32Array, Float32Array] {
+    const input = new Float32Array(this.inputLength);
+    for (const chunk of this.inputChunks) {
+      for (let i = 0; i < chunk.data.length; i++) {
+        input[chunk.offset + i] = chunk.data[i] / 32768;
+      }
+    }
+    const original = resampleLinear(input, INPUT_RATE, OUTPUT_RATE);
+
+    const length = Math.max(original.length, this.outputLength);
+    const left = new Float32Array(length);
+    left.set(original);
+    const right = new Float32Array(length);
+    // Mixed, not overwritten: ducked audio can overlap the new turn
+    for (const chunk of this.outputChunks) {
+      for (let i = 0; i < chunk.data.length; i++) {
+        right[chunk.offset + i] += chunk.data[i] / 32768;
+      }
+    }
+    return [left, right];
+  }
+}
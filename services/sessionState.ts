@@ -0,0 +1,72 @@
+import { InputSource, SessionError, SessionState } from '../types';
+
+// Every state LiveClient may move to from a given state. 'reconnecting'
+// repeats while attempts run; 'error' and 'closed' end a session and a
+// new connect() starts over from them.
+const TRANSITIONS: Record<SessionState, SessionState[]> = {
+  idle: ['acquiring-mic'],
+  'acquiring-mic': ['connecting', 'error', 'closed'],
+  connecting: ['live', 'reconnecting', 'error', 'closed'],
+  live: ['reconnecting', 'error', 'closed'],
+  reconnecting: ['reconnecting', 'live', 'error', 'closed'],
+  error: ['acquiring-mic'],
+  closed: ['acquiring-mic'],
+};
+
+export function canTransition(from: SessionState, to: SessionState): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+// Holds the input and can be stopped
+export function isSessionRunning(state: SessionState): boolean {
+  return state === 'acquiring-mic' || state === 'connecting' || state === 'live' || state === 'reconnecting';
+}
+
+// getUserMedia / getDisplayMedia / file decoding failures
+export function inputError(e: unknown, source: InputSource['kind']): SessionError {
+  const name = (e as DOMException)?.name;
+  const detail = e instanceof Error ? e.message : String(e);
+
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return {
+      kind: 'permission',
+      message: source === 'display'
+        ? 'Screen sharing was cancelled or blocked. Start again and allow sharing a tab with its audio.'
+        : 'Microphone access was denied. Allow it in the browser\'s site settings (the icon left of the address bar) and start again.',
+      detail,
+    };
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return { kind: 'input', message: 'The selected microphone is not connected. Pick another input.', detail };
+  }
+  if (name === 'NotReadableError' || name === 'AbortError') {
+    return { kind: 'input', message: 'The microphone is in use by another application or could not be opened.', detail };
+  }
+  if (source === 'file') {
+    return { kind: 'input', message: 'The file could not be played. Choose an audio or video file the browser supports.', detail };
+  }
+  return { kind: 'input', message: detail || 'The input could not be opened.', detail };
+}
+
+// Socket close reasons and connect failures. The Live API reports these as
+// close frames (1007 / 1008 / 1011) carrying the RPC status text.
+export function connectionError(reason: string | undefined, code?: number): SessionError {
+  const detail = [code, reason].filter(v => v !== undefined && v !== '').join(' ');
+  const text = reason ?? '';
+
+  if (/api.?key|unauthenticated|permission.?denied|unauthori[sz]ed/i.test(text)) {
+    return { kind: 'auth', message: 'The API key was rejected. Check that it is valid and has the Gemini API enabled.', detail };
+  }
+  if (/quota|resource.?exhausted|rate.?limit|too many requests/i.test(text)) {
+    return { kind: 'quota', message: 'The quota or rate limit of this API key is exhausted. Wait a moment or check billing for the project.', detail };
+  }
+  if (code === 1007 || code === 1008 || /not found|not supported|invalid argument/i.test(text)) {
+    return { kind: 'config', message: 'The server rejected the session setup (model, voice or language settings).', detail };
+  }
+  return { kind: 'network', message: 'Lost the connection to Gemini Live and could not reconnect. Check the network and start again.', detail };
+}
+
+// Retrying these only repeats the same answer
+export function isFatal(error: SessionError): boolean {
+  return error.kind === 'auth' || error.kind === 'quota' || error.kind === 'config';
+}
@@ -0,0 +1,171 @@
+import { AppSettings, AudioDevice, DeviceRef, Glossary, InterpreterProfile } from '../types';
+import { DEFAULT_INPUT_PROCESSING } from './inputFeed';
+import { AUTO_DETECT, DEFAULT_PRESET_ID, getLanguage, presetToPair, resolveLanguageCode } from './languageRegistry';
+import { DEFAULT_MIX_CONFIG } from './outputMixer';
+import { DEFAULT_PLAYBACK_CONFIG } from './playbackScheduler';
+import { defaultRelayUrl } from './relayProtocol';
+import { DEFAULT_VAD_CONFIG } from './vad';
+
+const SETTINGS_KEY = 'gli.settings';
+const PROFILES_KEY = 'gli.profiles';
+// Marks exported profile files
+const PROFILE_FORMAT = 'gemini-live-interpreter/profile';
+const PROFILE_VERSION = 1;
+
+export function defaultAppSettings(): AppSettings {
+  return {
+    mic: null,
+    speaker: null,
+    reverseSpeaker: null,
+    presetId: DEFAULT_PRESET_ID,
+    customPair: { source: AUTO_DETECT, target: 'de', twoWay: false },
+    record: true,
+    vad: DEFAULT_VAD_CONFIG,
+    inputProcessing: DEFAULT_INPUT_PROCESSING,
+    pushToTalk: false,
+    bargeIn: 'queue',
+    playback: DEFAULT_PLAYBACK_CONFIG,
+    mix: DEFAULT_MIX_CONFIG,
+    relay: { enabled: false, url: defaultRelayUrl(), token: '' },
+  };
+}
+
+// Stored values over defaults, so settings added later get their default
+function withDefaults(stored: Partial<AppSettings>): AppSettings {
+  const defaults = defaultAppSettings();
+  return {
+    ...defaults,
+    ...stored,
+    customPair: { ...defaults.customPair, ...stored.customPair },
+    vad: { ...defaults.vad, ...stored.vad },
+    inputProcessing: { ...defaults.inputProcessing, ...stored.inputProcessing },
+    playback: { ...defaults.playback, ...stored.playback },
+    mix: { ...defaults.mix, ...stored.mix },
+    relay: { ...defaults.relay, ...stored.relay },
+  };
+}
+
+export function loadAppSettings(): AppSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? withDefaults(JSON.parse(raw)) : defaultAppSettings();
+  } catch (e) {
+    console.warn('Failed to load settings', e);
+    return defaultAppSettings();
+  }
+}
+
+export function saveAppSettings(settings: AppSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Failed to save settings', e);
+  }
+}
+
+// Selected id -> remembered device. Before the devices are listed (or
+// without permission) the label isn't known yet: keep the previous one.
+export function toDeviceRef(id: string, devices: AudioDevice[], previous: DeviceRef | null): DeviceRef | null {
+  if (!id) return null;
+  const device = devices.find(d => d.deviceId === id);
+  if (device) return { id, label: device.label };
+  return previous?.id === id ? previous : { id, label: '' };
+}
+
+// Remembered device -> id in this list: same id, else same label
+export function resolveDevice(ref: DeviceRef | null, devices: AudioDevice[], pseudoIds: string[] = []): string | null {
+  if (!ref) return null;
+  if (pseudoIds.includes(ref.id) || devices.some(d => d.deviceId === ref.id)) return ref.id;
+  return (ref.label && devices.find(d => d.label === ref.label)?.deviceId) || null;
+}
+
+// After (re)listing devices: keep a selection that still exists, else the
+// remembered device, else the first one
+export function pickDevice(current: string, devices: AudioDevice[], saved: DeviceRef | null, pseudoIds: string[] = []): string {
+  if (current && (pseudoIds.includes(current) || devices.some(d => d.deviceId === current))) return current;
+  return resolveDevice(saved, devices, pseudoIds) ?? devices[0]?.deviceId ?? '';
+}
+
+export function loadProfiles(): InterpreterProfile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn('Failed to load profiles', e);
+    return [];
+  }
+}
+
+export function saveProfiles(profiles: InterpreterProfile[]) {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.warn('Failed to save profiles', e);
+  }
+}
+
+function newProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function createProfile(name: string, fields: Omit<InterpreterProfile, 'id' | 'name' | 'createdAt'>): InterpreterProfile {
+  return {
+    id: newProfileId(),
+    name,
+    createdAt: Date.now(),
+    ...fields,
+  };
+}
+
+export function profileToJson(profile: InterpreterProfile): string {
+  return JSON.stringify({ format: PROFILE_FORMAT, version: PROFILE_VERSION, profile }, null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isGlossary(value: unknown): value is Glossary {
+  return isRecord(value) && typeof value.name === 'string'
+    && Array.isArray(value.entries) && Array.isArray(value.doNotTranslate);
+}
+
+// Throws with a readable message for anything that isn't an exported profile
+export function parseProfileJson(text: string): InterpreterProfile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  if (!isRecord(data) || data.format !== PROFILE_FORMAT || !isRecord(data.profile)) {
+    throw new Error('Not an interpreter profile');
+  }
+  if (typeof data.version === 'number' && data.version > PROFILE_VERSION) {
+    throw new Error('The profile was exported by a newer version of the app');
+  }
+  const { id, name, createdAt, pair, settings, voices, glossary } = data.profile;
+  if (typeof name !== 'string' || !name || !isRecord(pair) || !isRecord(settings)) {
+    throw new Error('The profile is incomplete');
+  }
+  const defaults = defaultAppSettings().customPair;
+  const source = typeof pair.source === 'string' ? resolveLanguageCode(pair.source) : defaults.source;
+  const target = typeof pair.target === 'string' ? resolveLanguageCode(pair.target) : '';
+  if (source !== AUTO_DETECT && !getLanguage(source)) {
+    throw new Error(`The profile uses an unknown language: ${source}`);
+  }
+  if (!getLanguage(target)) {
+    throw new Error(target ? `The profile uses an unknown language: ${target}` : 'The profile is incomplete');
+  }
+  const twoWay = typeof pair.twoWay === 'boolean' ? pair.twoWay : defaults.twoWay;
+  // Pair checked against the registry, settings completed with defaults
+  return {
+    id: typeof id === 'string' && id ? id : newProfileId(),
+    name,
+    createdAt: typeof createdAt === 'number' ? createdAt : Date.now(),
+    pair: presetToPair({ source, target, twoWay }),
+    settings: withDefaults(settings),
+    voices: isRecord(voices) ? voices as InterpreterProfile['voices'] : {},
+    glossary: isGlossary(glossary) ? glossary : null,
+  };
+}
@@ -0,0 +1,46 @@
+import { ShortcutAction, ShortcutBindings } from '../types';
+
+const STORAGE_KEY = 'gli.shortcuts';
+
+// KeyboardEvent.code values, so bindings don't depend on the keyboard layout
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  start: 'F8',
+  stop: 'F9',
+  muteMic: 'KeyM',
+  muteOutput: 'KeyO',
+  nextPreset: 'KeyL',
+  pushToTalk: 'Space',
+};
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  start: 'Start session',
+  stop: 'Stop session',
+  muteMic: 'Mute microphone',
+  muteOutput: 'Mute output',
+  nextPreset: 'Next language preset',
+  pushToTalk: 'Push-to-talk (hold)',
+};
+
+export function loadShortcuts(): ShortcutBindings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_SHORTCUTS, ...JSON.parse(raw) } : DEFAULT_SHORTCUTS;
+  } catch (e) {
+    console.warn('Failed to load shortcuts', e);
+    return DEFAULT_SHORTCUTS;
+  }
+}
+
+export function saveShortcuts(bindings: ShortcutBindings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (e) {
+    console.warn('Failed to save shortcuts', e);
+  }
+}
+
+// 'KeyM' -> 'M', 'Digit1' -> '1', 'Space' -> 'Space'
+export function formatKey(code: string): string {
+  if (!code) return '—';
+  return code.replace(/^Key/, '').replace(/^Digit/, '');
+}
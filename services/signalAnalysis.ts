@@ -0,0 +1,132 @@
+// Calibrated level readings from the meter analysers (input feed, output bus).
+// Read once per animation frame; the analyser window is longer than a frame,
+// so peaks and clips only look at the samples that arrived since the last read.
+
+// Analyser window: ~43 ms on the input (native rate, e.g. 48 kHz), ~85 ms on
+// the 24 kHz output
+export const METER_FFT_SIZE = 2048;
+// Bottom of every dBFS scale
+export const MIN_DB = -90;
+
+// A sample at or above this counts as clipped (~ -0.01 dBFS)
+const CLIP_LEVEL = 0.999;
+// Peak hold: stays put this long, then falls
+const PEAK_HOLD_SECONDS = 1.5;
+const PEAK_DECAY_DB_PER_SECOND = 20;
+// Noise floor: a low percentile of 100 ms block levels over the last 10 s
+const BLOCK_SECONDS = 0.1;
+const NOISE_BLOCKS = 100;
+const NOISE_PERCENTILE = 0.1;
+
+export interface SignalLevels {
+  rmsDb: number;             // over the analyser window
+  peakDb: number;            // since the last read
+  peakHoldDb: number;
+  clips: number;             // clipped runs since start / resetClips()
+  clipping: boolean;         // clipped in this read
+  noiseFloorDb: number | null; // null until a few seconds are in
+}
+
+// 0..1 for the simple level meters: RMS of the analyser window, boosted for visibility
+export function meterLevel(analyser: AnalyserNode, buffer: Uint8Array<ArrayBuffer>): number {
+  analyser.getByteTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    const x = (buffer[i] - 128) / 128.0;
+    sum += x * x;
+  }
+  return Math.min(1, Math.sqrt(sum / buffer.length) * 4);
+}
+
+export function toDbfs(linear: number): number {
+  return linear > 0 ? Math.max(MIN_DB, 20 * Math.log10(linear)) : MIN_DB;
+}
+
+export class SignalAnalyzer {
+  private time: Float32Array<ArrayBuffer>;
+  private freq: Float32Array<ArrayBuffer>;
+  private lastReadAt = -1; // context time
+  private peakHoldDb = MIN_DB;
+  private peakHeldAt = 0;
+  private clips = 0;
+  private inClip = false;
+  // Noise floor bookkeeping
+  private blockSum = 0;
+  private blockSamples = 0;
+  private blocks = new Float32Array(NOISE_BLOCKS);
+  private blockCount = 0;
+  private noiseFloorDb: number | null = null;
+
+  constructor(readonly analyser: AnalyserNode) {
+    this.time = new Float32Array(analyser.fftSize);
+    this.freq = new Float32Array(analyser.frequencyBinCount);
+  }
+
+  read(): SignalLevels {
+    const { context } = this.analyser;
+    const now = context.currentTime;
+    this.analyser.getFloatTimeDomainData(this.time);
+
+    const elapsed = this.lastReadAt < 0 ? Infinity : now - this.lastReadAt;
+    const fresh = Math.min(this.time.length, Math.round(elapsed * context.sampleRate));
+    this.lastReadAt = now;
+
+    let windowSum = 0;
+    for (let i = 0; i < this.time.length; i++) windowSum += this.time[i] * this.time[i];
+
+    let peak = 0;
+    let clipping = false;
+    for (let i = this.time.length - fresh; i < this.time.length; i++) {
+      const x = Math.abs(this.time[i]);
+      if (x > peak) peak = x;
+      this.blockSum += x * x;
+      if (x >= CLIP_LEVEL) {
+        clipping = true;
+        if (!this.inClip) this.clips++;
+        this.inClip = true;
+      } else {
+        this.inClip = false;
+      }
+    }
+    this.blockSamples += fresh;
+    if (this.blockSamples >= BLOCK_SECONDS * context.sampleRate) this.closeBlock();
+
+    const peakDb = toDbfs(peak);
+    if (peakDb >= this.peakHoldDb) {
+      this.peakHoldDb = peakDb;
+      this.peakHeldAt = now;
+    } else if (now - this.peakHeldAt > PEAK_HOLD_SECONDS && Number.isFinite(elapsed)) {
+      this.peakHoldDb = Math.max(peakDb, this.peakHoldDb - PEAK_DECAY_DB_PER_SECOND * elapsed);
+    }
+
+    return {
+      rmsDb: toDbfs(Math.sqrt(windowSum / this.time.length)),
+      peakDb,
+      peakHoldDb: this.peakHoldDb,
+      clips: this.clips,
+      clipping,
+      noiseFloorDb: this.noiseFloorDb,
+    };
+  }
+
+  // dB per bin, 0 .. sampleRate / 2
+  spectrum(): Float32Array {
+    this.analyser.getFloatFrequencyData(this.freq);
+    return this.freq;
+  }
+
+  resetClips() {
+    this.clips = 0;
+  }
+
+  private closeBlock() {
+    this.blocks[this.blockCount % NOISE_BLOCKS] = toDbfs(Math.sqrt(this.blockSum / this.blockSamples));
+    this.blockCount++;
+    this.blockSum = 0;
+    this.blockSamples = 0;
+    // A couple of seconds before the estimate means anything
+    if (this.blockCount < 20) return;
+    const filled = this.blocks.slice(0, Math.min(this.blockCount, NOISE_BLOCKS)).sort();
+    this.noiseFloorDb = filled[Math.floor(filled.length * NOISE_PERCENTILE)];
+  }
+}
@@ -0,0 +1,66 @@
+import { TranscriptTurn, TranslationDirection } from '../types';
+
+// Collects the streaming input/output transcription fragments into turns.
+// Gemini sends both transcriptions independently of the audio, so a turn is
+// simply "everything between two turnComplete signals".
+export class TranscriptLog {
+  private turns: TranscriptTurn[] = [];
+  private current: TranscriptTurn | null = null;
+  private nextId = 1;
+
+  appendSource(text: string, at: number = Date.now()) {
+    const turn = this.ensureTurn(at);
+    turn.source += text;
+    turn.endedAt = at;
+  }
+
+  appendTarget(text: string, at: number = Date.now()) {
+    const turn = this.ensureTurn(at);
+    turn.target += text;
+    turn.endedAt = at;
+  }
+
+  // Two-way mode: which way the current turn is being translated
+  setDirection(direction: TranslationDirection) {
+    if (this.current) {
+      this.current.direction = direction;
+    }
+  }
+
+  getCurrentTurn(): TranscriptTurn | null {
+    return this.current;
+  }
+
+  completeTurn(at: number = Date.now()) {
+    if (!this.current) return;
+    this.current.endedAt = at;
+    this.current.complete = true;
+    this.current = null;
+  }
+
+  // Returns a shallow copy so React state updates see a new reference
+  getTurns(): TranscriptTurn[] {
+    return this.turns.map(t => ({ ...t }));
+  }
+
+  clear() {
+    this.turns = [];
+    this.current = null;
+    this.nextId = 1;
+  }
+
+  private ensureTurn(at: number): TranscriptTurn {
+    if (!this.current) {
+      this.current = {
+        id: this.nextId++,
+        startedAt: at,
+        endedAt: at,
+        source: '',
+        target: '',
+        complete: false,
+      };
+      this.turns.push(this.current);
+    }
+    return this.current;
+  }
+}
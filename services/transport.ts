@@ -0,0 +1,56 @@
+import { GoogleGenAI, LiveConnectParameters, LiveSendRealtimeInputParameters } from '@google/genai';
+import { BrowserCredentials, CredentialProvider, DEFAULT_TOKEN_ENDPOINT } from './credentials';
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+// The part of the SDK's `Session` that LiveClient actually uses.
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  close(): void;
+}
+
+// Anything that can open a Live session. The default talks to Gemini,
+// but the same client can be pointed at the local mock server.
+export interface LiveTransport {
+  connect(params: LiveConnectParameters): Promise<LiveSession>;
+  prepare?(): void; // fetch credentials ahead of connect()
+}
+
+export interface GeminiTransportOptions {
+  apiKey?: string;                  // fixed key (CLI, mock server)
+  credentials?: CredentialProvider; // asked before every connect, wins over apiKey
+  // e.g. http://localhost:8787 for the mock server (`npm run mock-server`)
+  baseUrl?: string;
+}
+
+export class GeminiLiveTransport implements LiveTransport {
+  constructor(private options: GeminiTransportOptions = {}) {}
+
+  prepare() {
+    this.options.credentials?.prefetch?.();
+  }
+
+  async connect(params: LiveConnectParameters): Promise<LiveSession> {
+    const apiKey = this.options.credentials ? await this.options.credentials.getKey() : this.options.apiKey;
+    // Ephemeral tokens are only accepted by the v1alpha endpoint
+    const ephemeral = !!apiKey?.startsWith('auth_tokens/');
+    const ai = new GoogleGenAI({
+      apiKey,
+      httpOptions: this.options.baseUrl || ephemeral
+        ? { baseUrl: this.options.baseUrl, apiVersion: ephemeral ? 'v1alpha' : undefined }
+        : undefined,
+    });
+    return ai.live.connect(params);
+  }
+}
+
+// Picks the transport from the build env: LIVE_BASE_URL switches to the mock
+// server, otherwise credentials come from the token service (or the user's key)
+export function createDefaultTransport(): LiveTransport {
+  const baseUrl = process.env.LIVE_BASE_URL || undefined;
+  if (baseUrl) {
+    // The mock server accepts any key
+    return new GeminiLiveTransport({ apiKey: 'mock', baseUrl });
+  }
+  return new GeminiLiveTransport({ credentials: new BrowserCredentials(process.env.TOKEN_URL || DEFAULT_TOKEN_ENDPOINT) });
+}
@@ -0,0 +1,141 @@
+import { MediaModality, UsageMetadata } from '@google/genai';
+import { CostRates, SessionUsageRecord, UsageSettings, UsageTotals } from '../types';
+import { toDelimited } from '../utils/csv';
+
+const SETTINGS_KEY = 'gli.usageSettings';
+const HISTORY_KEY = 'gli.usageHistory';
+// Oldest sessions fall off the local history beyond this
+const MAX_HISTORY = 500;
+
+// Published Live API prices for native audio (USD per 1M tokens); editable in the UI
+export const DEFAULT_COST_RATES: CostRates = {
+  currency: 'USD',
+  inputAudio: 3.0,
+  inputOther: 0.5,
+  outputAudio: 12.0,
+  outputOther: 2.0,
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  rates: DEFAULT_COST_RATES,
+  monthlyBudget: 0,
+  project: '',
+};
+
+export const EMPTY_USAGE: UsageTotals = {
+  inputAudioTokens: 0,
+  inputOtherTokens: 0,
+  outputAudioTokens: 0,
+  outputOtherTokens: 0,
+};
+
+// usageMetadata arrives per response; the per-modality details split audio
+// from everything else, the plain counts cover servers that omit them
+export function addUsage(totals: UsageTotals, metadata: UsageMetadata): UsageTotals {
+  const audio = (details: UsageMetadata['promptTokensDetails']) =>
+    (details ?? []).filter(d => d.modality === MediaModality.AUDIO).reduce((sum, d) => sum + (d.tokenCount ?? 0), 0);
+
+  const inputAudio = audio(metadata.promptTokensDetails);
+  const outputAudio = audio(metadata.responseTokensDetails);
+  const input = metadata.promptTokenCount ?? 0;
+  const output = (metadata.responseTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0);
+
+  return {
+    inputAudioTokens: totals.inputAudioTokens + inputAudio,
+    inputOtherTokens: totals.inputOtherTokens + Math.max(0, input - inputAudio),
+    outputAudioTokens: totals.outputAudioTokens + outputAudio,
+    outputOtherTokens: totals.outputOtherTokens + Math.max(0, output - outputAudio),
+  };
+}
+
+export function totalTokens(usage: UsageTotals): number {
+  return usage.inputAudioTokens + usage.inputOtherTokens + usage.outputAudioTokens + usage.outputOtherTokens;
+}
+
+export function estimateCost(usage: UsageTotals, rates: CostRates): number {
+  return (
+    usage.inputAudioTokens * rates.inputAudio +
+    usage.inputOtherTokens * rates.inputOther +
+    usage.outputAudioTokens * rates.outputAudio +
+    usage.outputOtherTokens * rates.outputOther
+  ) / 1_000_000;
+}
+
+export function formatCost(cost: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, minimumFractionDigits: 2, maximumFractionDigits: cost < 1 ? 4 : 2 }).format(cost);
+  } catch {
+    // Not an ISO currency code
+    return `${cost.toFixed(cost < 1 ? 4 : 2)} ${currency}`;
+  }
+}
+
+// Sessions started in the calendar month of `now`, for the budget warning
+export function monthToDateCost(history: SessionUsageRecord[], now: number = Date.now()): number {
+  const date = new Date(now);
+  return history
+    .filter(r => {
+      const started = new Date(r.startedAt);
+      return started.getFullYear() === date.getFullYear() && started.getMonth() === date.getMonth();
+    })
+    .reduce((sum, r) => sum + r.cost, 0);
+}
+
+// One row per session, for billing the sessions back to projects
+export function usageHistoryToCsv(history: SessionUsageRecord[]): string {
+  const rows = [
+    ['started', 'project', 'source', 'target', 'duration_s', 'input_audio_tokens', 'input_other_tokens', 'output_audio_tokens', 'output_other_tokens', 'cost', 'currency'],
+    ...history.map(r => [
+      new Date(r.startedAt).toISOString(),
+      r.project,
+      r.pair.source,
+      r.pair.target,
+      r.durationSeconds.toFixed(0),
+      String(r.usage.inputAudioTokens),
+      String(r.usage.inputOtherTokens),
+      String(r.usage.outputAudioTokens),
+      String(r.usage.outputOtherTokens),
+      r.cost.toFixed(4),
+      r.currency,
+    ]),
+  ];
+  return toDelimited(rows);
+}
+
+export function loadUsageSettings(): UsageSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_USAGE_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<UsageSettings>;
+    return { ...DEFAULT_USAGE_SETTINGS, ...stored, rates: { ...DEFAULT_COST_RATES, ...stored.rates } };
+  } catch (e) {
+    console.warn('Failed to load usage settings', e);
+    return DEFAULT_USAGE_SETTINGS;
+  }
+}
+
+export function saveUsageSettings(settings: UsageSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Failed to save usage settings', e);
+  }
+}
+
+export function loadUsageHistory(): SessionUsageRecord[] {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn('Failed to load usage history', e);
+    return [];
+  }
+}
+
+export function saveUsageHistory(history: SessionUsageRecord[]) {
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history.slice(-MAX_HISTORY)));
+  } catch (e) {
+    console.warn('Failed to save usage history', e);
+  }
+}
@@ -0,0 +1,111 @@
+import { VadConfig } from '../types';
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  enabled: false,
+  thresholdDb: -45,
+  hangoverMs: 600,
+  preRollMs: 300,
+};
+
+// Frames above this zero-crossing rate are treated as hiss/noise unless loud
+const MAX_SPEECH_ZCR = 0.35;
+// ...and this much above the threshold counts as speech regardless of ZCR
+const LOUD_MARGIN_DB = 12;
+// Analysis window inside a worklet buffer (32 ms at 16 kHz)
+const FRAME_SIZE = 512;
+
+export interface VadDecision {
+  started: boolean;      // speech began with this chunk (send activityStart first)
+  ended: boolean;        // hangover ran out with this chunk (send activityEnd after)
+  chunks: Float32Array[]; // audio to send, including pre-roll on start
+}
+
+// Energy + zero-crossing-rate gate for the mic uplink. Works on the 2048
+// sample buffers the recorder worklet posts; keeps a short pre-roll so the
+// first syllable isn't clipped and a hangover so short pauses don't end a turn.
+export class VoiceActivityDetector {
+  private speaking = false;
+  private silenceMs = 0;
+  private preRoll: Float32Array[] = [];
+  private preRollSamples = 0;
+
+  constructor(private config: VadConfig, private sampleRate: number) {}
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  // How long after the last speech frame `ended` is reported
+  get hangoverMs(): number {
+    return this.config.hangoverMs;
+  }
+
+  updateConfig(config: VadConfig) {
+    this.config = config;
+  }
+
+  process(chunk: Float32Array): VadDecision {
+    const speech = this.isSpeech(chunk);
+    const chunkMs = (chunk.length / this.sampleRate) * 1000;
+
+    if (!this.speaking) {
+      if (speech) {
+        this.speaking = true;
+        this.silenceMs = 0;
+        const chunks = [...this.preRoll, chunk];
+        this.preRoll = [];
+        this.preRollSamples = 0;
+        return { started: true, ended: false, chunks };
+      }
+      this.pushPreRoll(chunk);
+      return { started: false, ended: false, chunks: [] };
+    }
+
+    this.silenceMs = speech ? 0 : this.silenceMs + chunkMs;
+    if (this.silenceMs >= this.config.hangoverMs) {
+      this.speaking = false;
+      this.silenceMs = 0;
+      return { started: false, ended: true, chunks: [chunk] };
+    }
+    return { started: false, ended: false, chunks: [chunk] };
+  }
+
+  reset() {
+    this.speaking = false;
+    this.silenceMs = 0;
+    this.preRoll = [];
+    this.preRollSamples = 0;
+  }
+
+  private pushPreRoll(chunk: Float32Array) {
+    const maxSamples = (this.config.preRollMs / 1000) * this.sampleRate;
+    if (maxSamples <= 0) return;
+    this.preRoll.push(chunk);
+    this.preRollSamples += chunk.length;
+    // Keep whole chunks, dropping the oldest once the rest still covers the pre-roll
+    while (this.preRoll.length > 1 && this.preRollSamples - this.preRoll[0].length >= maxSamples) {
+      this.preRollSamples -= this.preRoll.shift()!.length;
+    }
+  }
+
+  // A chunk is speech if any of its frames is
+  private isSpeech(chunk: Float32Array): boolean {
+    for (let start = 0; start < chunk.length; start += FRAME_SIZE) {
+      const end = Math.min(chunk.length, start + FRAME_SIZE);
+      let sum = 0;
+      let crossings = 0;
+      for (let i = start; i < end; i++) {
+        sum += chunk[i] * chunk[i];
+        if (i > start && (chunk[i] >= 0) !== (chunk[i - 1] >= 0)) crossings++;
+      }
+      const rms = Math.sqrt(sum / (end - start));
+      const db = 20 * Math.log10(rms || 1e-10);
+      const zcr = crossings / (end - start);
+
+      if (db > this.config.thresholdDb && (zcr < MAX_SPEECH_ZCR || db > this.config.thresholdDb + LOUD_MARGIN_DB)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
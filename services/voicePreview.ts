@@ -0,0 +1,92 @@
+import { Modality } from '@google/genai';
+import { VoiceSettings } from '../types';
+import { base64ToUint8Array, decodeAudioData } from '../utils/audioUtils';
+import { speechLanguageCode } from './languageRegistry';
+import { getVoicePreviewInstruction } from './promptFactory';
+import { createDefaultTransport, LIVE_MODEL, LiveSession, LiveTransport } from './transport';
+
+interface AudioContextWithSinkId extends AudioContext {
+  setSinkId(deviceId: string): Promise<void>;
+}
+
+// Give up if the sample hasn't finished by then
+const PREVIEW_TIMEOUT_MS = 15000;
+
+// Lets the voice say one sentence in the target language through a short-lived
+// Live session, so it can be judged before the real session starts.
+// Resolves once playback has finished.
+export async function previewVoice(
+  voice: VoiceSettings,
+  languageCode: string,
+  speakerDeviceId?: string,
+  transport: LiveTransport = createDefaultTransport(),
+): Promise<void> {
+  const AudioContext = window.AudioContext || window.webkitAudioContext;
+  const context = new AudioContext({ sampleRate: 24000 }) as AudioContextWithSinkId;
+  if (speakerDeviceId && typeof context.setSinkId === 'function') {
+    await context.setSinkId(speakerDeviceId).catch(e => console.warn('Preview: failed to set output device', e));
+  }
+
+  let nextStartTime = 0;
+  let receivedAudio = false;
+  let session: LiveSession | null = null;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Voice preview timed out')), PREVIEW_TIMEOUT_MS);
+      const done = () => {
+        clearTimeout(timeout);
+        // Wait for the scheduled audio to play out
+        const remaining = Math.max(0, nextStartTime - context.currentTime);
+        setTimeout(resolve, remaining * 1000);
+      };
+
+      transport.connect({
+        model: LIVE_MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: voice.voiceName } },
+            languageCode: speechLanguageCode(languageCode),
+          },
+          systemInstruction: getVoicePreviewInstruction(languageCode, voice),
+        },
+        callbacks: {
+          onmessage: async (message) => {
+            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (base64Audio) {
+              receivedAudio = true;
+              const buffer = await decodeAudioData(base64ToUint8Array(base64Audio), context);
+              const source = context.createBufferSource();
+              source.buffer = buffer;
+              source.connect(context.destination);
+              nextStartTime = Math.max(nextStartTime, context.currentTime);
+              source.start(nextStartTime);
+              nextStartTime += buffer.duration;
+            }
+            if (message.serverContent?.turnComplete) done();
+          },
+          // Closed before saying anything: the setup was rejected
+          onclose: (e) => {
+            if (receivedAudio) {
+              done();
+              return;
+            }
+            clearTimeout(timeout);
+            reject(new Error(e?.reason || 'The voice preview session closed without audio'));
+          },
+          onerror: (e) => console.error('Voice preview error', e),
+        },
+      }).then(s => {
+        session = s;
+        s.sendRealtimeInput({ text: 'Please introduce yourself.' });
+      }, e => {
+        clearTimeout(timeout);
+        reject(e);
+      });
+    });
+  } finally {
+    (session as LiveSession | null)?.close();
+    await context.close();
+  }
+}
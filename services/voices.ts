@@ -0,0 +1,51 @@
+import { VoiceSettings } from '../types';
+import { getLanguage } from './languageRegistry';
+
+// Prebuilt Live API voices
+export const VOICES: { name: string; description: string }[] = [
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Aoede', description: 'Breezy' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Zephyr', description: 'Bright' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Orus', description: 'Firm, lower' },
+];
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voiceName: 'Kore',
+  rate: 'normal',
+  register: 'auto',
+};
+
+const VOICES_STORAGE_KEY = 'gli.voices';
+
+// Registry defaults for the language, e.g. a slower voice for Thai
+export function defaultVoiceFor(languageCode: string): VoiceSettings {
+  return { ...DEFAULT_VOICE_SETTINGS, ...getLanguage(languageCode)?.voiceDefaults };
+}
+
+// Saved choice for the target language, falling back to its defaults
+export function voiceForLanguage(saved: Record<string, VoiceSettings>, languageCode: string): VoiceSettings {
+  return saved[languageCode] ?? defaultVoiceFor(languageCode);
+}
+
+// Keyed by target language code
+export function loadVoiceSettings(): Record<string, VoiceSettings> {
+  try {
+    const raw = localStorage.getItem(VOICES_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, VoiceSettings>) : {};
+  } catch (e) {
+    console.warn('Failed to load voice settings', e);
+    return {};
+  }
+}
+
+export function saveVoiceSettings(settings: Record<string, VoiceSettings>) {
+  try {
+    localStorage.setItem(VOICES_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Failed to save voice settings', e);
+  }
+}
@@ -1,11 +1,43 @@
-export enum LanguageMode {
-  AUTO_TO_GERMAN = 'Auto -> German',
-  EN_TO_DE = 'English -> German',
-  DE_TO_EN = 'German -> English',
-  DE_TO_THAI = 'German -> Thai',
-  THAI_TO_DE = 'Thai -> German',
-  KOR_TO_DE = 'Korean -> German',
-  CUSTOM = 'Custom / More...',
+export type ScriptName = 'thai' | 'hangul' | 'kana' | 'han' | 'cyrillic' | 'arabic' | 'devanagari' | 'vietnamese';
+
+export interface LanguageInfo {
+  code: string;          // e.g. 'de'
+  speechLocale?: string; // BCP-47 for the Live API speech output, e.g. 'de-DE'
+  name: string;          // English display name, also used in prompts
+  nativeName: string;
+  promptHint?: string;   // extra instruction when this is the target language
+  script?: ScriptName;   // non-Latin script, used to guess caption language
+  stopwords?: string[];  // Latin-script languages: frequent words for the same purpose
+  voiceDefaults?: Partial<VoiceSettings>; // when speaking this language
+}
+
+export type SpeakingRate = 'slow' | 'normal' | 'fast';
+export type SpeechRegister = 'auto' | 'formal' | 'informal';
+
+// Voice of the interpretation; the style parts are prompt hints, not engine settings
+export interface VoiceSettings {
+  voiceName: string;       // prebuilt voice, see services/voices.ts
+  rate: SpeakingRate;
+  register: SpeechRegister;
+}
+
+// Language codes; source may be 'auto' for one-way pairs
+export interface LanguagePair {
+  source: string;
+  target: string;
+  twoWay: boolean; // conversation mode: translate whichever of the two is spoken into the other
+}
+
+// Named entry of the Translation dropdown
+export interface PairPreset extends LanguagePair {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+}
+
+export interface TranslationDirection {
+  source: string;
+  target: string;
 }
 
 export interface AudioDevice {
@@ -13,11 +45,229 @@ export interface AudioDevice {
   label: string;
 }
 
+// Publish the interpretation to the LAN listener relay
+export interface RelayConfig {
+  enabled: boolean;
+  url: string; // ws://host:port of server/relayServer.ts
+  token: string; // publish token the relay printed at start
+}
+
+// One audience of a multi-language broadcast
+export interface BroadcastTarget {
+  id: string;
+  language: string;         // target language code
+  speakerDeviceId: string;  // '' = default output
+}
+
+// Where the speech to interpret comes from
+export type InputSource =
+  | { kind: 'mic'; deviceId?: string }
+  | { kind: 'display' }  // tab / screen audio via getDisplayMedia
+  | { kind: 'file'; file: File };
+
 export interface LiveClientConfig {
   micDeviceId?: string;
+  input?: InputSource; // overrides micDeviceId
   speakerDeviceId?: string;
-  languageMode: LanguageMode;
-  customSource?: string;
-  customTarget?: string;
+  reverseSpeakerDeviceId?: string; // two-way mode: output for target -> source (defaults to speakerDeviceId)
+  pair: LanguagePair;
   onVolumeChange: (type: 'input' | 'output', volume: number) => void;
+  onTranscript?: (turns: TranscriptTurn[]) => void;
+  record?: boolean; // keep mic + interpretation audio for export after stop()
+  onDirectionChange?: (direction: TranslationDirection) => void;
+  glossary?: Glossary; // fixed terminology folded into the system instruction
+  vad?: VadConfig;
+  onSpeechActivity?: (speaking: boolean) => void;
+  pushToTalk?: boolean; // mic only reaches the session while setTalking(true)
+  bargeIn?: BargeInPolicy;
+  voice?: VoiceSettings;
+  mix?: MixConfig;
+  playback?: PlaybackConfig;
+  onBacklogChange?: (seconds: number) => void; // per animation frame
+  onOutputAudio?: (data: Float32Array) => void; // decoded 24 kHz interpretation, e.g. for the relay
+  onUsage?: (usage: UsageTotals) => void; // running totals, whenever the server reports usage
+  inputProcessing?: InputProcessing;
+}
+
+// Original speaker under the interpretation (levels are linear gain 0..1)
+export interface MixConfig {
+  originalEnabled: boolean;
+  originalLevel: number;
+  duckLevel: number;          // relative to originalLevel while translation plays
+  interpretationLevel: number;
+  stereoSplit: boolean;       // original left, interpretation right
+}
+
+// How playback catches up once it is more than maxLagMs behind the speaker
+export type CatchUpStrategy = 'speedup' | 'trim' | 'drop';
+
+export interface PlaybackConfig {
+  enabled: boolean;
+  maxLagMs: number;
+  catchUp: CatchUpStrategy;
+}
+
+// What happens to already scheduled translation when the model is interrupted
+export type BargeInPolicy = 'queue' | 'duck' | 'flush';
+
+export interface VadConfig {
+  enabled: boolean;
+  thresholdDb: number; // frame level (dBFS) that counts as speech
+  hangoverMs: number;  // keep sending this long after speech stops
+  preRollMs: number;   // audio sent from before speech was detected
+}
+
+// Capture-side processing. The browser flags apply to microphones from the
+// next session; gain and the low cut apply live.
+export interface InputProcessing {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  gainDb: number;
+  highPassHz: number; // 0 = off
+}
+
+export interface GlossaryEntry {
+  source: string;
+  target: string;
+  note?: string;
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  source: string; // language codes of the pair the terms are written for
+  target: string;
+  entries: GlossaryEntry[];
+  doNotTranslate: string[]; // brand / product names kept verbatim
+}
+
+// LiveClient connection state (transitions in services/sessionState.ts)
+export type SessionState = 'idle' | 'acquiring-mic' | 'connecting' | 'live' | 'reconnecting' | 'error' | 'closed';
+
+export type SessionErrorKind =
+  | 'permission' // mic / screen capture denied
+  | 'input'      // device missing or busy, nothing shared, no file
+  | 'auth'       // API key rejected
+  | 'quota'      // rate limit or quota exhausted
+  | 'config'     // model or setup rejected by the server
+  | 'network'    // connection lost for good
+  | 'unknown';
+
+export interface SessionError {
+  kind: SessionErrorKind;
+  message: string; // for the user
+  detail?: string; // raw reason, for the console / support
+}
+
+export interface TranscriptTurn {
+  id: number;
+  startedAt: number; // epoch ms of the first fragment
+  endedAt: number;   // epoch ms of the last fragment
+  source: string;    // input transcription (what was said)
+  target: string;    // output transcription (the interpretation)
+  complete: boolean;
+  direction?: TranslationDirection; // two-way mode only
+}
+
+// A device remembered across reloads / machines: ids change, labels mostly don't
+export interface DeviceRef {
+  id: string;
+  label: string;
+}
+
+// Everything on the main screen that survives a reload (services/settings.ts)
+export interface AppSettings {
+  mic: DeviceRef | null;            // also DISPLAY_INPUT_ID / FILE_INPUT_ID
+  speaker: DeviceRef | null;
+  reverseSpeaker: DeviceRef | null; // null = same as main output
+  presetId: string;
+  customPair: LanguagePair;
+  record: boolean;
+  vad: VadConfig;
+  inputProcessing: InputProcessing;
+  pushToTalk: boolean;
+  bargeIn: BargeInPolicy;
+  playback: PlaybackConfig;
+  mix: MixConfig;
+  relay: RelayConfig;
+}
+
+// Named, exportable setup for identical booth machines
+export interface InterpreterProfile {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  settings: AppSettings;
+  pair: LanguagePair; // resolved, for machines that lack the preset
+  voices: Record<string, VoiceSettings>; // for the pair's languages
+  glossary: Glossary | null;             // embedded so the file is self-contained
+}
+
+// Live figures of one interpreter session (services/sessionMetrics.ts)
+export interface MetricSummary {
+  count: number;
+  last: number;
+  avg: number;
+  p50: number; // percentiles over the most recent samples
+  p95: number;
+  max: number;
+}
+
+export interface SessionMetricsSnapshot {
+  startedAt: number;        // epoch ms
+  durationSeconds: number;
+  chunksSent: number;       // mic buffers that reached the socket
+  chunkRate: number;        // per second, recent window
+  inputDropped: number;     // buffers lost while the socket was down
+  sendFailures: number;
+  reconnects: number;
+  responseLatencyMs: MetricSummary; // end of speech -> first translated audio received
+  heardLatencyMs: MetricSummary;    // end of speech -> first translated audio heard
+  decodeMs: MetricSummary;          // decoder worker turnaround per chunk
+  backlogSeconds: MetricSummary;    // queued translation when a chunk arrives
+}
+
+// Tokens billed for one session, summed from the server's usageMetadata
+export interface UsageTotals {
+  inputAudioTokens: number;
+  inputOtherTokens: number;  // text (system instruction, glossary), etc.
+  outputAudioTokens: number;
+  outputOtherTokens: number; // text (transcriptions), thoughts, etc.
+}
+
+// Price per million tokens, in `currency`
+export interface CostRates {
+  currency: string;
+  inputAudio: number;
+  inputOther: number;
+  outputAudio: number;
+  outputOther: number;
+}
+
+export interface UsageSettings {
+  rates: CostRates;
+  monthlyBudget: number; // warn once this month's sessions cost more (0 = off)
+  project: string;       // billing label stored with each session
+}
+
+export interface SessionUsageRecord {
+  id: string;
+  project: string;
+  startedAt: number; // epoch ms
+  durationSeconds: number;
+  pair: LanguagePair;
+  usage: UsageTotals;
+  cost: number; // estimate at the rates of the time
+  currency: string;
+}
+
+export type ShortcutAction = 'start' | 'stop' | 'muteMic' | 'muteOutput' | 'nextPreset' | 'pushToTalk';
+
+export type ShortcutBindings = Record<ShortcutAction, string>; // KeyboardEvent.code per action
+
+declare global {
+  interface Window {
+    webkitAudioContext?: typeof AudioContext; // older Safari only has the prefixed constructor
+  }
 }
@@ -20,8 +20,8 @@ export function arrayBufferToBase64(buffer: ArrayBuffer): string {
   return btoa(binary);
 }
 
-export function pcmToGeminiBlob(data: Float32Array, sampleRate: number): Blob {
-  // Convert Float32 (-1.0 to 1.0) to Int16 (-32768 to 32767)
+// Float32 (-1.0 to 1.0) to Int16 (-32768 to 32767)
+export function floatToInt16(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -29,7 +29,11 @@ export function pcmToGeminiBlob(data: Float32Array, sampleRate: number): Blob {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
-  
+  return int16;
+}
+
+export function pcmToGeminiBlob(data: Float32Array, sampleRate: number): Blob {
+  const int16 = floatToInt16(data);
   return {
     data: arrayBufferToBase64(int16.buffer),
     mimeType: `audio/pcm;rate=${sampleRate}`,
@@ -53,4 +57,115 @@ export async function decodeAudioData(
     }
   }
   return buffer;
-}
\ No newline at end of file
+}
+// Linear interpolation resampler. Good enough for offline export of speech;
+// not intended for the realtime path.
+export function resampleLinear(data: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return data;
+  const ratio = fromRate / toRate;
+  const outLength = Math.floor(data.length / ratio);
+  const out = new Float32Array(outLength);
+  for (let i = 0; i < outLength; i++) {
+    const pos = i * ratio;
+    const idx = Math.floor(pos);
+    const frac = pos - idx;
+    const a = data[idx];
+    const b = idx + 1 < data.length ? data[idx + 1] : a;
+    out[i] = a + (b - a) * frac;
+  }
+  return out;
+}
+
+// Encodes one or more equally long Float32 channels as a 16-bit PCM WAV file.
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const numChannels = channels.length;
+  const frameCount = channels[0]?.length ?? 0;
+  const blockAlign = numChannels * 2;
+  const dataSize = frameCount * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+  };
+
+  // RIFF header
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  // fmt chunk
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  // data chunk
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  // Interleave channels
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const s = Math.max(-1, Math.min(1, channels[ch][i]));
+      view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+      offset += 2;
+    }
+  }
+  return buffer;
+}
+
+// Decodes a PCM WAV file (8/16/24/32-bit integer or 32-bit float) into
+// Float32 channels. Unknown chunks (LIST, fact, ...) are skipped.
+export function decodeWav(buffer: ArrayBuffer): { sampleRate: number; channels: Float32Array[] } {
+  const view = new DataView(buffer);
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode(...new Uint8Array(buffer, offset, length));
+
+  if (readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let numChannels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readString(offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      numChannels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE: the real format is the first field of the GUID
+      if (format === 0xFFFE) format = view.getUint16(body + 24, true);
+    } else if (id === 'data') {
+      if (format !== 1 && format !== 3) throw new Error(`Unsupported WAV format ${format}`);
+      const bytesPerSample = bitsPerSample / 8;
+      const frameCount = Math.floor(Math.min(size, buffer.byteLength - body) / (bytesPerSample * numChannels));
+      const channels = Array.from({ length: numChannels }, () => new Float32Array(frameCount));
+      for (let i = 0; i < frameCount; i++) {
+        for (let ch = 0; ch < numChannels; ch++) {
+          const pos = body + (i * numChannels + ch) * bytesPerSample;
+          channels[ch][i] =
+            format === 3 ? view.getFloat32(pos, true)
+            : bitsPerSample === 8 ? (view.getUint8(pos) - 128) / 128
+            : bitsPerSample === 16 ? view.getInt16(pos, true) / 32768
+            : bitsPerSample === 24 ? ((view.getUint8(pos + 2) << 24 | view.getUint8(pos + 1) << 16 | view.getUint8(pos) << 8) >> 8) / 8388608
+            : view.getInt32(pos, true) / 2147483648;
+        }
+      }
+      return { sampleRate, channels };
+    }
+    // Chunks are padded to an even size
+    offset = body + size + (size % 2);
+  }
+  throw new Error('WAV file has no data chunk');
+}
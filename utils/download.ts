@@ -0,0 +1,13 @@
+// Triggers a browser download for an in-memory file
+export function downloadBlob(data: Blob | string, filename: string, mimeType = 'text/plain') {
+  const blob = typeof data === 'string' ? new Blob([data], { type: `${mimeType};charset=utf-8` }) : data;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,55 @@
+import { getLanguage } from '../services/languageRegistry';
+import { ScriptName } from '../types';
+
+// Lightweight language guessing for transcription snippets.
+// We only ever need to decide between the two languages of a conversation,
+// so script ranges plus a handful of stopwords (from the registry) are enough.
+
+const SCRIPTS: Record<ScriptName | 'latin', RegExp> = {
+  thai: /[฀-๿]/g,
+  hangul: /[가-힯ᄀ-ᇿ]/g,
+  kana: /[぀-ヿ]/g,
+  han: /[一-鿿]/g,
+  cyrillic: /[Ѐ-ӿ]/g,
+  arabic: /[؀-ۿ]/g,
+  devanagari: /[ऀ-ॿ]/g,
+  vietnamese: /[ăâđêôơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/gi,
+  latin: /[A-Za-zÀ-ÿ]/g,
+};
+
+function scriptScore(text: string, script: ScriptName | 'latin'): number {
+  return (text.match(SCRIPTS[script]) || []).length;
+}
+
+function languageScore(text: string, code: string): number {
+  const language = getLanguage(code);
+  if (language?.script) {
+    return scriptScore(text, language.script);
+  }
+  const words = language?.stopwords;
+  if (!words) {
+    // Unknown Latin-script language: count Latin letters only
+    return scriptScore(text, 'latin') * 0.01;
+  }
+  const tokens = text.toLowerCase().split(/[^\p{L}]+/u);
+  // Latin letters are a weak signal, stopwords decide between Latin languages
+  return tokens.filter(t => words.includes(t)).length * 5 + scriptScore(text, 'latin') * 0.01;
+}
+
+// Returns the more likely of the candidate language codes, or null if undecided
+export function detectLanguage(text: string, candidates: string[]): string | null {
+  let best: string | null = null;
+  let bestScore = 0;
+  let tie = false;
+  for (const code of candidates) {
+    const score = languageScore(text, code);
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+      tie = false;
+    } else if (score === bestScore && score > 0) {
+      tie = true;
+    }
+  }
+  return tie ? null : best;
+}
@@ -0,0 +1,66 @@
+import { TranscriptTurn } from '../types';
+
+export type CaptionField = 'source' | 'target';
+
+interface Cue {
+  index: number;
+  start: number; // seconds from recording start
+  end: number;
+  text: string;
+}
+
+// Captions shorter than this are stretched so they stay readable
+const MIN_CUE_SECONDS = 1.5;
+
+function buildCues(turns: TranscriptTurn[], origin: number, field: CaptionField): Cue[] {
+  const cues = turns
+    .filter(t => t[field].trim().length > 0)
+    .map((t, i) => {
+      const start = Math.max(0, (t.startedAt - origin) / 1000);
+      const end = Math.max(start + MIN_CUE_SECONDS, (t.endedAt - origin) / 1000);
+      return { index: i + 1, start, end, text: t[field].trim() };
+    });
+  // Never overlap the next cue, not even to stay readable
+  cues.forEach((c, i) => {
+    const next = cues[i + 1];
+    if (next) c.end = Math.max(c.start, Math.min(c.end, next.start));
+  });
+  return cues;
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const rest = ms % 1000;
+  const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(rest, 3)}`;
+}
+
+export function toSrt(turns: TranscriptTurn[], origin: number, field: CaptionField = 'target'): string {
+  return buildCues(turns, origin, field)
+    .map(c => `${c.index}\n${formatTimestamp(c.start, ',')} --> ${formatTimestamp(c.end, ',')}\n${c.text}\n`)
+    .join('\n');
+}
+
+export function toVtt(turns: TranscriptTurn[], origin: number, field: CaptionField = 'target'): string {
+  const cues = buildCues(turns, origin, field)
+    .map(c => `${c.index}\n${formatTimestamp(c.start, '.')} --> ${formatTimestamp(c.end, '.')}\n${c.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+}
+
+// Both sides of every turn, with absolute and relative timing
+export function toTranscriptJson(turns: TranscriptTurn[], origin: number): string {
+  return JSON.stringify({
+    startedAt: new Date(origin).toISOString(),
+    turns: turns.map(t => ({
+      id: t.id,
+      start: Math.max(0, (t.startedAt - origin) / 1000),
+      end: Math.max(0, (t.endedAt - origin) / 1000),
+      source: t.source.trim(),
+      target: t.target.trim(),
+    })),
+  }, null, 2);
+}
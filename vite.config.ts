@@ -8,11 +8,26 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Ephemeral Live API tokens from `npm run token-server`
+          '/api/token': `http://127.0.0.1:${env.TOKEN_SERVER_PORT || 8791}`,
+        },
       },
       plugins: [react()],
+      build: {
+        rollupOptions: {
+          // listener.html is the audience page for the LAN relay
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            listener: path.resolve(__dirname, 'listener.html'),
+          },
+        },
+      },
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // No API key in the bundle: the page gets short-lived tokens (or the user's own key)
+        'process.env.TOKEN_URL': JSON.stringify(env.TOKEN_URL),
+        // Set to e.g. http://localhost:8787 to develop against `npm run mock-server`
+        'process.env.LIVE_BASE_URL': JSON.stringify(env.LIVE_BASE_URL)
       },
       resolve: {
         alias: {